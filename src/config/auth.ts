@@ -0,0 +1,80 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface SigningKey {
+    kid: string;
+    secret: string;
+}
+
+export interface TokenConfig {
+    // The first key signs new tokens; the rest are only accepted for verification while they age out
+    keys: SigningKey[];
+    expiresIn: string;
+}
+
+export interface AuthConfig {
+    accessToken: TokenConfig;
+    refreshToken: TokenConfig;
+}
+
+const DEVELOPMENT_SECRETS = {
+    access: 'dev-only-access-token-secret',
+    refresh: 'dev-only-refresh-token-secret'
+};
+
+/**
+ * Keys come from either a rotation list or a single secret:
+ *   JWT_SECRETS=2024-06:new-secret,2024-01:old-secret   (first entry signs, all verify)
+ *   JWT_SECRET=secret                                    (single key, kid "primary")
+ */
+const parseKeys = (listVar: string, singleVar: string): SigningKey[] => {
+    const list = process.env[listVar];
+    if (list) {
+        return list.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+            const separator = entry.indexOf(':');
+            if (separator <= 0 || separator === entry.length - 1) {
+                throw new Error(`${listVar} entries must look like "<kid>:<secret>"`);
+            }
+            return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+        });
+    }
+
+    const secret = process.env[singleVar];
+    return secret ? [{ kid: 'primary', secret }] : [];
+};
+
+const loadTokenConfig = (
+    listVar: string,
+    singleVar: string,
+    expiresVar: string,
+    defaultExpiresIn: string,
+    developmentSecret: string
+): TokenConfig => {
+    let keys = parseKeys(listVar, singleVar);
+
+    if (keys.length === 0) {
+        if (process.env.NODE_ENV === 'production') {
+            throw new Error(`${singleVar} (or ${listVar}) must be set in production`);
+        }
+        console.warn(`⚠️  ${singleVar} is not set, using an insecure development secret`);
+        keys = [{ kid: 'development', secret: developmentSecret }];
+    }
+
+    const kids = new Set(keys.map(key => key.kid));
+    if (kids.size !== keys.length) {
+        throw new Error(`${listVar} contains duplicate key ids`);
+    }
+
+    return {
+        keys,
+        expiresIn: process.env[expiresVar] || defaultExpiresIn
+    };
+};
+
+export const authConfig: AuthConfig = {
+    accessToken: loadTokenConfig('JWT_SECRETS', 'JWT_SECRET', 'JWT_EXPIRES_IN', '7d', DEVELOPMENT_SECRETS.access),
+    refreshToken: loadTokenConfig('REFRESH_TOKEN_SECRETS', 'REFRESH_TOKEN_SECRET', 'REFRESH_TOKEN_EXPIRES_IN', '30d', DEVELOPMENT_SECRETS.refresh)
+};
+
+export default authConfig;
@@ -0,0 +1,573 @@
+import { Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { authService } from '../services/auth.service';
+import { userService } from '../services/user.service';
+import { auditService } from '../services/audit.service';
+import { schedulerService } from '../services/scheduler.service';
+import { planService } from '../services/plan.service';
+import { creditService } from '../services/credit.service';
+import { organizationService } from '../services/organization.service';
+import { UpdateUserData, User } from '../models/User';
+import { PlanId, UpdatePlanData } from '../models/Plan';
+import { AuditEventType } from '../models/AuditEvent';
+import { CreditPackSource, CreditTransactionType } from '../models/Credit';
+import { sessionContext } from '../utils/request.util';
+import { badRequest, conflict, created, notFound, ok } from '../validation/admin.validation';
+
+export class AdminController {
+    async listUsers(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 20;
+
+            const { users, total } = await userService.searchUsers({
+                search: req.query.search as string | undefined,
+                role: req.query.role as User['role'] | undefined,
+                subscriptionTier: req.query.subscriptionTier as User['subscriptionTier'] | undefined,
+                isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                users: users.map(user => authService.sanitizeUser(user)),
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getUser(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.params.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            return ok(res, {
+                user: authService.sanitizeUser(user)
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateSubscription(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const { subscriptionTier, monthlyLimit, billingCycle } = req.body;
+
+            const updateData: UpdateUserData = {};
+            if (subscriptionTier !== undefined) {
+                updateData.subscriptionTier = subscriptionTier;
+                // Changing tier without an explicit limit puts the user back on the plan's limit
+                updateData.monthlyLimit = await planService.getMonthlyLimit(subscriptionTier);
+                updateData.monthlyLimitOverride = null;
+            }
+            if (monthlyLimit !== undefined) {
+                // An explicit limit sticks through later plan changes
+                updateData.monthlyLimit = parseInt(monthlyLimit);
+                updateData.monthlyLimitOverride = updateData.monthlyLimit;
+            }
+
+            const existingUser = await userService.findById(req.params.id);
+            if (!existingUser) {
+                return notFound(res, 'User not found');
+            }
+
+            if (billingCycle !== undefined && billingCycle !== existingUser.billingCycle) {
+                // The current period keeps its start and now ends on the next boundary of the new cycle
+                updateData.billingCycle = billingCycle;
+                updateData.currentPeriodEnd = userService.getBillingPeriod(existingUser, { billingCycle }).end;
+            }
+
+            const user = await userService.updateUser(req.params.id, updateData);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            await auditService.record({
+                eventType: 'admin.subscription_updated',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                before: existingUser,
+                after: updateData,
+                ...sessionContext(req)
+            });
+
+            return ok(res, {
+                user: authService.sanitizeUser(user)
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deactivateUser(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            if (req.params.id === req.user!.id) {
+                return badRequest(res, 'You cannot deactivate your own account');
+            }
+
+            const user = await userService.findById(req.params.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            // Deactivated users shouldn't keep any live sessions
+            await userService.deactivateUser(user.id, req.user!.id);
+            const revokedSessions = await authService.logoutAll(user.id);
+
+            await auditService.record({
+                eventType: 'admin.user_deactivated',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                before: { isActive: user.isActive },
+                after: { isActive: false },
+                metadata: { revokedSessions },
+                ...sessionContext(req)
+            });
+
+            const updatedUser = await userService.findById(user.id);
+
+            return ok(res, {
+                user: authService.sanitizeUser(updatedUser!)
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async reactivateUser(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const existingUser = await userService.findById(req.params.id);
+            if (!existingUser) {
+                return notFound(res, 'User not found');
+            }
+
+            const user = await userService.updateUser(req.params.id, { isActive: true, deactivatedAt: null, deactivatedBy: null });
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            await auditService.record({
+                eventType: 'admin.user_reactivated',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                before: { isActive: existingUser.isActive, deactivatedBy: existingUser.deactivatedBy },
+                after: { isActive: true },
+                ...sessionContext(req)
+            });
+
+            return ok(res, {
+                user: authService.sanitizeUser(user)
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async resetUsage(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const usageCount = req.body.usageCount !== undefined ? parseInt(req.body.usageCount) : 0;
+
+            const existingUser = await userService.findById(req.params.id);
+            if (!existingUser) {
+                return notFound(res, 'User not found');
+            }
+
+            const user = await userService.setUsageCount(req.params.id, usageCount, { actorId: req.user!.id });
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            await auditService.record({
+                eventType: 'usage.reset',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                before: { usageCount: existingUser.usageCount },
+                after: { usageCount },
+                metadata: { trigger: 'admin' },
+                ...sessionContext(req)
+            });
+
+            return ok(res, {
+                user: authService.sanitizeUser(user)
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getCredits(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.params.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            return ok(res, await creditService.getBalance(user));
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async listCreditTransactions(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const { transactions, total } = await creditService.findTransactions(req.params.id, {
+                type: req.query.type as CreditTransactionType | undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                transactions,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async grantCredits(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.params.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            const pack = await creditService.grant(user.id, {
+                quantity: parseInt(req.body.quantity),
+                source: (req.body.source as CreditPackSource) || 'grant',
+                expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : undefined,
+                reference: req.body.reference,
+                reason: req.body.reason,
+                actorId: req.user!.id
+            });
+
+            await auditService.record({
+                eventType: 'admin.credits_granted',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                metadata: {
+                    packId: pack.id,
+                    source: pack.source,
+                    quantity: pack.quantity,
+                    expiresAt: pack.expiresAt,
+                    reference: pack.reference,
+                    reason: req.body.reason
+                },
+                ...sessionContext(req)
+            });
+
+            return created(res, {
+                pack,
+                credits: await creditService.getBalance(user)
+            }, 'Credits granted');
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async refundCredits(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.params.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            const transaction = await creditService.refund(user.id, req.params.packId, {
+                actorId: req.user!.id,
+                reason: req.body?.reason
+            });
+
+            await auditService.record({
+                eventType: 'admin.credits_refunded',
+                actorId: req.user!.id,
+                targetUserId: user.id,
+                metadata: { packId: req.params.packId, quantity: -transaction.amount, reason: req.body?.reason },
+                ...sessionContext(req)
+            });
+
+            return ok(res, {
+                transaction,
+                credits: await creditService.getBalance(user)
+            });
+        } catch (error: any) {
+            if (error.message === 'Credit pack not found') {
+                return notFound(res, error.message);
+            }
+            if (error.message === 'Credit pack has no credits left') {
+                return conflict(res, error.message, 'NO_CREDITS_LEFT');
+            }
+            next(error);
+        }
+    }
+
+    async listAuditEvents(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const { events, total } = await auditService.findEvents({
+                eventType: req.query.eventType as AuditEventType | undefined,
+                actorId: req.query.actorId as string | undefined,
+                targetUserId: req.query.targetUserId as string | undefined,
+                from: req.query.from ? new Date(req.query.from as string) : undefined,
+                to: req.query.to ? new Date(req.query.to as string) : undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                events,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async listPlans(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const plans = await planService.listPlans();
+
+            return ok(res, { plans });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updatePlan(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const planId = req.params.id as PlanId;
+            const {
+                name, monthlyLimit, features, usageRateLimit, overageEnabled, overageUnitPriceCents, overageSpendCapCents,
+                stripePriceId, stripeOveragePriceId
+            } = req.body;
+
+            const existingPlan = await planService.getPlan(planId);
+            if (!existingPlan) {
+                return notFound(res, 'Plan not found');
+            }
+
+            const updateData: UpdatePlanData = {
+                name,
+                monthlyLimit: monthlyLimit !== undefined ? parseInt(monthlyLimit) : undefined,
+                features,
+                usageRateLimit: usageRateLimit === null ? null : usageRateLimit !== undefined ? parseInt(usageRateLimit) : undefined,
+                overageEnabled,
+                overageUnitPriceCents: overageUnitPriceCents !== undefined ? parseInt(overageUnitPriceCents) : undefined,
+                overageSpendCapCents: overageSpendCapCents !== undefined ? parseInt(overageSpendCapCents) : undefined,
+                stripePriceId,
+                stripeOveragePriceId
+            };
+
+            const plan = await planService.updatePlan(planId, updateData);
+            if (!plan) {
+                return notFound(res, 'Plan not found');
+            }
+
+            // Users and organizations on the plan pick up the new limit now rather than at their next period
+            const syncedUsers = await userService.syncMonthlyLimits(plan);
+            const syncedOrganizations = await organizationService.syncMonthlyLimits(plan);
+
+            await auditService.record({
+                eventType: 'admin.plan_updated',
+                actorId: req.user!.id,
+                before: existingPlan,
+                after: updateData,
+                metadata: { plan: plan.id, syncedUsers, syncedOrganizations },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { plan, syncedUsers, syncedOrganizations });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async listOrganizations(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 20;
+
+            const { organizations, total } = await organizationService.search({
+                search: req.query.search as string | undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                organizations,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateOrganizationSubscription(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const existing = await organizationService.findById(req.params.id);
+            if (!existing) {
+                return notFound(res, 'Organization not found');
+            }
+
+            const organization = await organizationService.updateSubscription(req.params.id, {
+                subscriptionTier: req.body.subscriptionTier,
+                monthlyLimit: req.body.monthlyLimit !== undefined ? parseInt(req.body.monthlyLimit) : undefined
+            });
+            if (!organization) {
+                return notFound(res, 'Organization not found');
+            }
+
+            await auditService.record({
+                eventType: 'admin.organization_subscription_updated',
+                actorId: req.user!.id,
+                before: { subscriptionTier: existing.subscriptionTier, monthlyLimit: existing.monthlyLimit },
+                after: { subscriptionTier: organization.subscriptionTier, monthlyLimit: organization.monthlyLimit },
+                metadata: { organizationId: organization.id },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { organization });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async listJobs(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const jobs = await schedulerService.listJobs();
+
+            return ok(res, { jobs });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async runJob(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const run = await schedulerService.runJob(req.params.name, 'manual');
+            if (!run) {
+                return conflict(res, 'Job is already running', 'JOB_RUNNING');
+            }
+
+            await auditService.record({
+                eventType: 'admin.job_triggered',
+                actorId: req.user!.id,
+                metadata: { job: run.name, status: run.status, durationMs: run.durationMs },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { run });
+        } catch (error: any) {
+            if (error.message === 'Job not found') {
+                return notFound(res, error.message);
+            }
+            next(error);
+        }
+    }
+}
+
+export const adminController = new AdminController();
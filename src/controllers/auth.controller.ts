@@ -2,9 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import { body, validationResult } from 'express-validator';
 import { authService } from '../services/auth.service';
 import { userService } from '../services/user.service';
+import { auditService } from '../services/audit.service';
+import { dunningService } from '../services/dunning.service';
+import { googleTokenService, GoogleTokenError } from '../services/google-token.service';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { GoogleProfile } from '../models/User';
-import { badRequest, created, notFound, ok, serverError, unauthorized } from '../validation/auth.validation';
+import { sessionContext } from '../utils/request.util';
+import { badRequest, created, forbidden, notFound, ok, serverError, unauthorized } from '../validation/auth.validation';
 
 export class AuthController {
     async register(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
@@ -29,7 +33,7 @@ export class AuthController {
                 firstName,
                 lastName,
                 companyName
-            });
+            }, sessionContext(req));
 
             const sanitizedUser = authService.sanitizeUser(result.user);
 
@@ -58,7 +62,7 @@ export class AuthController {
 
             const { email, password } = req.body;
 
-            const result = await authService.login({ email, password });
+            const result = await authService.login({ email, password }, sessionContext(req));
 
             console.log('Login result user:', result.user); // Debug logging
             console.log('isActive type:', typeof result.user.isActive); // Debug logging
@@ -87,7 +91,7 @@ export class AuthController {
                 return badRequest(res, 'Refresh token is required');
             }
 
-            const result = await authService.refreshToken(refreshToken);
+            const result = await authService.refreshToken(refreshToken, sessionContext(req));
 
             const sanitizedUser = authService.sanitizeUser(result.user);
 
@@ -100,6 +104,64 @@ export class AuthController {
         }
     }
 
+    async logout(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const { refreshToken } = req.body;
+
+            if (!refreshToken) {
+                return badRequest(res, 'Refresh token is required');
+            }
+
+            await authService.logout(refreshToken);
+
+            return ok(res, {
+                message: 'Logged out successfully'
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async logoutAll(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const revokedCount = await authService.logoutAll(req.user!.id);
+
+            return ok(res, {
+                message: 'Logged out of all sessions',
+                revokedCount
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            const sessions = await authService.getSessions(req.user!.id);
+
+            return ok(res, {
+                sessions
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async revokeSession(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            await authService.revokeSession(req.user!.id, req.params.id);
+
+            return ok(res, {
+                message: 'Session revoked'
+            });
+        } catch (error: any) {
+            if (error.message === 'Session not found') {
+                return notFound(res, error.message);
+            }
+            next(error);
+        }
+    }
+
     async getProfile(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
         try {
             const user = await userService.findById(req.user!.id);
@@ -110,7 +172,9 @@ export class AuthController {
             const sanitizedUser = authService.sanitizeUser(user);
 
             return ok(res, {
-                user: sanitizedUser
+                user: sanitizedUser,
+                // Payment standing: current dunning state, when it changes next and the recent transitions
+                billingStatus: await dunningService.getStatus(user)
             });
         } catch (error) {
             next(error);
@@ -119,18 +183,43 @@ export class AuthController {
 
     async updateProfile(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
         try {
-            const { firstName, lastName, companyName } = req.body;
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const { firstName, lastName, companyName, timezone } = req.body;
 
             const updateData: any = {};
             if (firstName !== undefined) updateData.firstName = firstName;
             if (lastName !== undefined) updateData.lastName = lastName;
             if (companyName !== undefined) updateData.companyName = companyName;
 
+            const existingUser = await userService.findById(req.user!.id);
+            if (!existingUser) {
+                return notFound(res, 'User not found');
+            }
+
+            if (timezone !== undefined && timezone !== (existingUser.timezone || null)) {
+                // The current period keeps its start and ends on the next boundary in the new time zone
+                updateData.timezone = timezone;
+                updateData.currentPeriodEnd = userService.getBillingPeriod(existingUser, { timezone }).end;
+            }
+
             const updatedUser = await userService.updateUser(req.user!.id, updateData);
             if (!updatedUser) {
                 return notFound(res, 'User not found');
             }
 
+            await auditService.record({
+                eventType: 'user.profile_updated',
+                actorId: req.user!.id,
+                targetUserId: req.user!.id,
+                before: existingUser,
+                after: updateData,
+                ...sessionContext(req)
+            });
+
             const sanitizedUser = authService.sanitizeUser(updatedUser);
 
             return ok(res, {
@@ -152,10 +241,7 @@ export class AuthController {
             // Validate new password strength
             const passwordValidation = authService.validatePassword(newPassword);
             if (!passwordValidation.isValid) {
-                return badRequest(res,
-                    passwordValidation.errors,
-                    'New password does not meet requirements'
-                );
+                return badRequest(res, passwordValidation.errors, 'WEAK_PASSWORD');
             }
 
             // Get user with password
@@ -175,8 +261,16 @@ export class AuthController {
                 return badRequest(res, 'Current password is incorrect');
             }
 
-            // Update password
+            // Update password and sign out every session, including this one
             await userService.updatePassword(req.user!.id, newPassword);
+            await authService.logoutAll(req.user!.id);
+
+            await auditService.record({
+                eventType: 'auth.password_changed',
+                actorId: req.user!.id,
+                targetUserId: req.user!.id,
+                ...sessionContext(req)
+            });
 
             return created(res, null, 'Password changed successfully');
         } catch (error) {
@@ -195,9 +289,11 @@ export class AuthController {
             // Always return success for security (don't reveal if email exists)
             try {
                 await authService.generatePasswordResetToken(email);
-                // In a real implementation, send email here
-            } catch (error) {
-                // Silently ignore errors for security
+            } catch (error: any) {
+                // Don't reveal whether the email exists, but surface delivery problems in the logs
+                if (error.message !== 'User not found') {
+                    console.error('Password reset request failed:', error);
+                }
             }
 
             return created(res, null, 'If an account with that email exists, a password reset link has been sent.')
@@ -220,7 +316,7 @@ export class AuthController {
                 return badRequest(res, 'Password does not meet requirements');
             }
 
-            await authService.resetPassword(token, newPassword);
+            await authService.resetPassword(token, newPassword, sessionContext(req));
 
             return ok(res, {
                 success: true,
@@ -232,6 +328,42 @@ export class AuthController {
     }
 
 
+    async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            // Accept the token from the emailed link (GET) or from the frontend (POST)
+            const token = (req.query.token || req.body?.token) as string | undefined;
+
+            if (!token) {
+                return badRequest(res, 'Verification token is required');
+            }
+
+            const user = await authService.verifyEmail(token);
+
+            return ok(res, {
+                user: authService.sanitizeUser(user),
+                message: 'Email verified successfully'
+            });
+        } catch (error: any) {
+            return badRequest(res, error.message);
+        }
+    }
+
+    async resendVerification(req: AuthRequest, res: Response, next: NextFunction): Promise<Response | void> {
+        try {
+            await authService.generateEmailVerificationToken(req.user!.id);
+
+            return created(res, null, 'Verification email sent');
+        } catch (error: any) {
+            if (error.message === 'Email is already verified') {
+                return badRequest(res, error.message);
+            }
+            if (error.message === 'User not found') {
+                return notFound(res, error.message);
+            }
+            next(error);
+        }
+    }
+
     async googleAuthCallback(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
         try {
             if (!req.user) {
@@ -241,7 +373,7 @@ export class AuthController {
             // The user profile is set by passport - it should be a GoogleProfile
             const profile = req.user as any as GoogleProfile;
 
-            const result = await authService.authenticateWithGoogle(profile);
+            const result = await authService.authenticateWithGoogle(profile, sessionContext(req));
             const sanitizedUser = authService.sanitizeUser(result.user);
 
             // For API response, return JSON with tokens
@@ -265,22 +397,10 @@ export class AuthController {
                 return badRequest(res, 'Google JWT credential is required');
             }
 
-            // Decode the JWT token to get user info
-            const payload = JSON.parse(Buffer.from(credential.split('.')[1], 'base64').toString());
-
-            // Create a profile object similar to the Google Profile interface
-            const profile: GoogleProfile = {
-                id: payload.sub,
-                email: payload.email,
-                verified_email: payload.email_verified,
-                name: payload.name,
-                given_name: payload.given_name,
-                family_name: payload.family_name,
-                picture: payload.picture,
-                locale: payload.locale || 'en'
-            };
-
-            const result = await authService.authenticateWithGoogle(profile);
+            // Verify signature, issuer, audience and expiry before trusting any claims
+            const profile = await googleTokenService.verifyIdToken(credential);
+
+            const result = await authService.authenticateWithGoogle(profile, sessionContext(req));
             const sanitizedUser = authService.sanitizeUser(result.user);
 
             return created(
@@ -292,6 +412,16 @@ export class AuthController {
                 }, result.isNewUser ? 'User registered successfully with Google' : 'Login successful with Google'
             );
         } catch (error: any) {
+            if (error instanceof GoogleTokenError) {
+                console.warn(`Rejected Google credential from ${req.ip}: ${error.code}`);
+                return unauthorized(res, error.message, error.code);
+            }
+            if (error.message === 'Account is deactivated. Please contact support.') {
+                return unauthorized(res, error.message);
+            }
+            if (error.message === 'Google email is not verified') {
+                return forbidden(res, 'Verify this email address with Google before signing in to an existing account', 'GOOGLE_EMAIL_UNVERIFIED');
+            }
             console.error('Google JWT auth error:', error);
             return serverError(res, error.message || 'Google authentication failed');
         }
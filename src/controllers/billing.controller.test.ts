@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { userService } from '../services/user.service';
+import { billingService } from '../services/billing.service';
+import { billingWebhookService } from '../services/billing-webhook.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { BillingController } from './billing.controller';
+
+jest.mock('../services/user.service', () => ({ userService: { findById: jest.fn() } }));
+jest.mock('../services/billing.service', () => ({
+    CHECKOUT_PLANS: ['pro', 'business'],
+    billingService: { createCheckoutSession: jest.fn() }
+}));
+jest.mock('../services/billing-webhook.service', () => ({ billingWebhookService: { handleStripeWebhook: jest.fn() } }));
+jest.mock('../services/audit.service', () => ({ auditService: { record: jest.fn() } }));
+
+const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+};
+
+describe('BillingController', () => {
+    const controller = new BillingController();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('answers a plan that cannot be bought with a PLAN_NOT_AVAILABLE 400', async () => {
+        (userService.findById as jest.Mock).mockResolvedValue({ id: 'user-1' });
+        (billingService.createCheckoutSession as jest.Mock).mockRejectedValue(new Error('Plan is not available for checkout'));
+        const res = response();
+
+        await controller.createCheckoutSession(
+            { user: { id: 'user-1' }, body: { subscriptionTier: 'enterprise' } } as unknown as AuthRequest,
+            res as unknown as Response
+        );
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Plan is not available for checkout', code: 'PLAN_NOT_AVAILABLE' }
+        });
+    });
+
+    it('answers a webhook that is not a raw body with an INVALID_PAYLOAD 400', async () => {
+        const res = response();
+
+        await controller.handleStripeWebhook({ body: {}, get: () => undefined } as unknown as Request, res as unknown as Response);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Expected the raw request body', code: 'INVALID_PAYLOAD' }
+        });
+    });
+
+    it('answers a webhook with a bad signature with an INVALID_SIGNATURE 400', async () => {
+        (billingWebhookService.handleStripeWebhook as jest.Mock).mockRejectedValue(new Error('Invalid webhook signature'));
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const res = response();
+
+        await controller.handleStripeWebhook(
+            { body: Buffer.from('{}'), get: () => 't=1,v1=forged', ip: '203.0.113.7' } as unknown as Request,
+            res as unknown as Response
+        );
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Invalid webhook signature', code: 'INVALID_SIGNATURE' }
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { userService } from '../services/user.service';
+import { billingService } from '../services/billing.service';
+import { billingWebhookService } from '../services/billing-webhook.service';
+import { auditService } from '../services/audit.service';
+import { PlanId } from '../models/Plan';
+import { sessionContext } from '../utils/request.util';
+import { badRequest, conflict, created, notFound, ok, serverError } from '../validation/billing.validation';
+
+export class BillingController {
+    async createCheckoutSession(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.user!.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            const planId = req.body.subscriptionTier as PlanId;
+            const session = await billingService.createCheckoutSession(user, planId);
+
+            await auditService.record({
+                eventType: 'billing.checkout_started',
+                actorId: user.id,
+                targetUserId: user.id,
+                metadata: { plan: planId, sessionId: session.id },
+                ...sessionContext(req)
+            });
+
+            return created(res, { sessionId: session.id, url: session.url });
+        } catch (error: any) {
+            if (error.message === 'Plan is not available for checkout') {
+                return badRequest(res, error.message, 'PLAN_NOT_AVAILABLE');
+            }
+            if (error.message === 'Subscription already active') {
+                // Changing an existing subscription happens in the portal
+                return conflict(res, error.message, 'SUBSCRIPTION_EXISTS');
+            }
+
+            console.error('Create checkout session error:', error);
+            return serverError(res, 'Failed to start checkout');
+        }
+    }
+
+    async createPortalSession(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const user = await userService.findById(req.user!.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            const session = await billingService.createPortalSession(user);
+
+            return created(res, { url: session.url });
+        } catch (error: any) {
+            if (error.message === 'No billing account') {
+                return conflict(res, 'Upgrade to a paid plan before opening the billing portal', 'NO_BILLING_ACCOUNT');
+            }
+
+            console.error('Create portal session error:', error);
+            return serverError(res, 'Failed to open billing portal');
+        }
+    }
+
+    // Stripe retries anything that isn't a 2xx, so only acknowledge events that were handled (or are duplicates)
+    async handleStripeWebhook(req: Request, res: Response): Promise<Response> {
+        try {
+            if (!Buffer.isBuffer(req.body)) {
+                return badRequest(res, 'Expected the raw request body', 'INVALID_PAYLOAD');
+            }
+
+            const result = await billingWebhookService.handleStripeWebhook(req.body, req.get('Stripe-Signature'));
+
+            return ok(res, { received: true, ...result });
+        } catch (error: any) {
+            if (error.message === 'Invalid webhook signature') {
+                console.warn(`🚨 Rejected Stripe webhook with an invalid signature from ${req.ip}`);
+                return badRequest(res, error.message, 'INVALID_SIGNATURE');
+            }
+            if (error.message === 'Event is already being processed') {
+                return conflict(res, error.message, 'EVENT_IN_PROGRESS');
+            }
+
+            console.error('Stripe webhook error:', error);
+            return serverError(res, 'Failed to process webhook');
+        }
+    }
+}
+
+export const billingController = new BillingController();
@@ -0,0 +1,487 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { organizationService } from '../services/organization.service';
+import { auditService } from '../services/audit.service';
+import { mailService } from '../services/mail.service';
+import { userService } from '../services/user.service';
+import { Membership, OrganizationRole } from '../models/Organization';
+import { UsageLineItem } from '../models/UsageEvent';
+import { sessionContext } from '../utils/request.util';
+import {
+    badRequest,
+    conflict,
+    created,
+    forbidden,
+    notFound,
+    ok,
+    serverError,
+    tooManyRequests
+} from '../validation/organization.validation';
+
+// Roles that can rename the organization and manage its members
+const MANAGER_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+export class OrganizationController {
+    async createOrganization(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const organization = await organizationService.create(req.user!.id, req.body.name);
+
+            await auditService.record({
+                eventType: 'organization.created',
+                actorId: req.user!.id,
+                targetUserId: req.user!.id,
+                metadata: { organizationId: organization.id, name: organization.name },
+                ...sessionContext(req)
+            });
+
+            return created(res, { organization }, 'Organization created');
+        } catch (error: any) {
+            if (error.message === 'Free organization limit reached') {
+                return forbidden(res, 'You already own the maximum number of free organizations', 'FREE_ORGANIZATION_LIMIT');
+            }
+
+            console.error('Create organization error:', error);
+            return serverError(res, 'Failed to create organization');
+        }
+    }
+
+    async listOrganizations(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const organizations = await organizationService.listForUser(req.user!.id);
+
+            return ok(res, { organizations });
+        } catch (error) {
+            console.error('List organizations error:', error);
+            return serverError(res, 'Failed to list organizations');
+        }
+    }
+
+    async getOrganization(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const membership = await organizationService.getMembership(req.params.id, req.user!.id);
+            const organization = membership ? await organizationService.findById(req.params.id) : null;
+            if (!membership || !organization) {
+                return notFound(res, 'Organization not found');
+            }
+
+            return ok(res, { organization: { ...organization, role: membership.role } });
+        } catch (error) {
+            console.error('Get organization error:', error);
+            return serverError(res, 'Failed to get organization');
+        }
+    }
+
+    async updateOrganization(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const membership = await organizationService.getMembership(req.params.id, req.user!.id);
+            if (!membership) {
+                return notFound(res, 'Organization not found');
+            }
+            if (!MANAGER_ROLES.includes(membership.role)) {
+                return forbidden(res, 'Only owners and admins can change the organization', 'ORGANIZATION_ROLE_REQUIRED');
+            }
+
+            const existing = await organizationService.findById(req.params.id);
+            const organization = await organizationService.rename(req.params.id, req.body.name);
+            if (!existing || !organization) {
+                return notFound(res, 'Organization not found');
+            }
+
+            await auditService.record({
+                eventType: 'organization.updated',
+                actorId: req.user!.id,
+                before: { name: existing.name },
+                after: { name: organization.name },
+                metadata: { organizationId: organization.id },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { organization: { ...organization, role: membership.role } });
+        } catch (error) {
+            console.error('Update organization error:', error);
+            return serverError(res, 'Failed to update organization');
+        }
+    }
+
+    async listMembers(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const membership = await organizationService.getMembership(req.params.id, req.user!.id);
+            if (!membership) {
+                return notFound(res, 'Organization not found');
+            }
+
+            const members = await organizationService.listMembers(req.params.id);
+
+            return ok(res, { members });
+        } catch (error) {
+            console.error('List organization members error:', error);
+            return serverError(res, 'Failed to list members');
+        }
+    }
+
+    // Invite someone by email. The response is the same whether or not the address has an account, and
+    // nobody joins until the invitee accepts.
+    async inviteMember(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const role: OrganizationRole = req.body.role || 'member';
+            const denied = await this.checkManager(req, res, role === 'owner');
+            if (denied) {
+                return denied;
+            }
+
+            const invitation = await organizationService.invite(req.params.id, req.body.email, {
+                role,
+                monthlyLimit: req.body.monthlyLimit,
+                invitedBy: req.user!.id
+            });
+
+            // A failed email shouldn't fail the invitation; it can be sent again by re-inviting
+            try {
+                const [organization, inviter] = await Promise.all([
+                    organizationService.findById(req.params.id),
+                    userService.findById(req.user!.id)
+                ]);
+                await mailService.sendOrganizationInvitationEmail(invitation.email, {
+                    organizationName: organization?.name || 'an organization',
+                    inviterName: inviter ? `${inviter.firstName} ${inviter.lastName}`.trim() : 'A PayLens user',
+                    expiresAt: new Date(invitation.expiresAt)
+                });
+            } catch (error) {
+                console.error('Failed to send organization invitation email:', error);
+            }
+
+            await auditService.record({
+                eventType: 'organization.member_invited',
+                actorId: req.user!.id,
+                after: { email: invitation.email, role: invitation.role, monthlyLimit: invitation.monthlyLimit },
+                metadata: { organizationId: req.params.id, invitationId: invitation.id },
+                ...sessionContext(req)
+            });
+
+            return created(res, { invitation }, 'Invitation sent');
+        } catch (error: any) {
+            if (error.message === 'User is already a member') {
+                return conflict(res, error.message, 'ALREADY_MEMBER');
+            }
+
+            console.error('Invite organization member error:', error);
+            return serverError(res, 'Failed to invite member');
+        }
+    }
+
+    async listInvitations(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const denied = await this.checkManager(req, res, false);
+            if (denied) {
+                return denied;
+            }
+
+            const invitations = await organizationService.listInvitations(req.params.id);
+
+            return ok(res, { invitations });
+        } catch (error) {
+            console.error('List organization invitations error:', error);
+            return serverError(res, 'Failed to list invitations');
+        }
+    }
+
+    async revokeInvitation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const denied = await this.checkManager(req, res, false);
+            if (denied) {
+                return denied;
+            }
+
+            const invitation = await organizationService.revokeInvitation(req.params.id, req.params.invitationId);
+
+            await auditService.record({
+                eventType: 'organization.invitation_revoked',
+                actorId: req.user!.id,
+                before: { email: invitation.email, role: invitation.role, monthlyLimit: invitation.monthlyLimit },
+                metadata: { organizationId: req.params.id, invitationId: invitation.id },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { invitation });
+        } catch (error: any) {
+            return this.invitationError(res, error, 'Failed to revoke invitation');
+        }
+    }
+
+    // Invitations addressed to the signed-in user's email
+    async listReceivedInvitations(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const invitations = await organizationService.listReceivedInvitations(req.user!.email);
+
+            return ok(res, { invitations });
+        } catch (error) {
+            console.error('List received invitations error:', error);
+            return serverError(res, 'Failed to list invitations');
+        }
+    }
+
+    async acceptInvitation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const { member, invitation } = await organizationService.acceptInvitation(req.params.invitationId, req.user!);
+
+            await auditService.record({
+                eventType: 'organization.member_added',
+                actorId: req.user!.id,
+                targetUserId: member.userId,
+                after: { role: member.role, monthlyLimit: member.monthlyLimit },
+                metadata: { organizationId: member.organizationId, invitationId: invitation.id, invitedBy: invitation.invitedBy },
+                ...sessionContext(req)
+            });
+
+            return created(res, { member }, 'Invitation accepted');
+        } catch (error: any) {
+            return this.invitationError(res, error, 'Failed to accept invitation');
+        }
+    }
+
+    async declineInvitation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            await organizationService.declineInvitation(req.params.invitationId, req.user!.email);
+
+            return ok(res);
+        } catch (error: any) {
+            return this.invitationError(res, error, 'Failed to decline invitation');
+        }
+    }
+
+    async updateMember(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const existing = await organizationService.getMembership(req.params.id, req.params.userId);
+            // Only owners can make someone an owner or change an owner's membership
+            const ownerChange = req.body.role === 'owner' || existing?.role === 'owner';
+            const denied = await this.checkManager(req, res, ownerChange);
+            if (denied) {
+                return denied;
+            }
+            if (!existing) {
+                return notFound(res, 'Member not found');
+            }
+
+            const member = await organizationService.updateMember(req.params.id, req.params.userId, {
+                role: req.body.role,
+                monthlyLimit: req.body.monthlyLimit
+            });
+
+            await auditService.record({
+                eventType: 'organization.member_updated',
+                actorId: req.user!.id,
+                targetUserId: member.userId,
+                before: { role: existing.role, monthlyLimit: existing.monthlyLimit },
+                after: { role: member.role, monthlyLimit: member.monthlyLimit },
+                metadata: { organizationId: req.params.id },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { member });
+        } catch (error: any) {
+            return this.memberError(res, error, 'Failed to update member');
+        }
+    }
+
+    // Managers remove members; anyone can leave
+    async removeMember(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const existing = await organizationService.getMembership(req.params.id, req.params.userId);
+            if (req.params.userId !== req.user!.id) {
+                const denied = await this.checkManager(req, res, existing?.role === 'owner');
+                if (denied) {
+                    return denied;
+                }
+            }
+            if (!existing) {
+                return notFound(res, 'Member not found');
+            }
+
+            const member = await organizationService.removeMember(req.params.id, req.params.userId);
+
+            await auditService.record({
+                eventType: 'organization.member_removed',
+                actorId: req.user!.id,
+                targetUserId: member.userId,
+                before: { role: member.role, monthlyLimit: member.monthlyLimit },
+                metadata: { organizationId: req.params.id, usageCount: member.usageCount },
+                ...sessionContext(req)
+            });
+
+            return ok(res, { member });
+        } catch (error: any) {
+            return this.memberError(res, error, 'Failed to remove member');
+        }
+    }
+
+    async getUsage(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const membership = await organizationService.getMembership(req.params.id, req.user!.id);
+            const organization = membership ? await organizationService.findById(req.params.id) : null;
+            if (!membership || !organization) {
+                return notFound(res, 'Organization not found');
+            }
+
+            return ok(res, await organizationService.getUsage(organization));
+        } catch (error) {
+            console.error('Get organization usage error:', error);
+            return serverError(res, 'Failed to get organization usage');
+        }
+    }
+
+    async consumeUsage(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const requestId = req.get('X-Request-Id') || req.get('Idempotency-Key') || uuidv4();
+
+            const items: UsageLineItem[] = Array.isArray(req.body.items)
+                ? req.body.items.map((item: any) => ({
+                    feature: item.feature,
+                    quantity: parseInt(item.quantity),
+                    metadata: item.metadata
+                }))
+                : [{ feature: req.body.feature, quantity: parseInt(req.body.quantity), metadata: req.body.metadata }];
+
+            const result = await organizationService.consumeUsage(req.params.id, req.user!.id, items, requestId);
+
+            if (!result.canIncrement) {
+                if (!result.organization) {
+                    return notFound(res, result.error);
+                }
+
+                console.warn(`🚨 ${result.error} for organization ${req.params.id}, member ${req.user!.id}`);
+                return tooManyRequests(res, {
+                    message: result.error,
+                    code: result.error?.startsWith('Member') ? 'MEMBER_LIMIT_EXCEEDED' : 'USAGE_LIMIT_EXCEEDED',
+                    currentUsage: result.organization.usageCount,
+                    limit: result.organization.monthlyLimit,
+                    memberUsage: result.member?.usageCount,
+                    memberLimit: result.member?.monthlyLimit,
+                    wasReset: result.wasReset || false
+                });
+            }
+
+            return ok(res, {
+                usageCount: result.organization!.usageCount,
+                monthlyLimit: result.organization!.monthlyLimit,
+                memberUsageCount: result.member!.usageCount,
+                memberMonthlyLimit: result.member!.monthlyLimit,
+                quantity: items.reduce((total, item) => total + item.quantity, 0),
+                items,
+                wasReset: result.wasReset || false,
+                requestId
+            });
+        } catch (error) {
+            console.error('Consume organization usage error:', error);
+            return serverError(res, 'Failed to consume organization usage');
+        }
+    }
+
+    // Sends a 404 or 403 and returns it unless the caller manages the organization (or owns it, if requireOwner)
+    private async checkManager(req: AuthRequest, res: Response, requireOwner: boolean): Promise<Response | null> {
+        const membership: Membership | null = await organizationService.getMembership(req.params.id, req.user!.id);
+        if (!membership) {
+            return notFound(res, 'Organization not found');
+        }
+        if (requireOwner ? membership.role !== 'owner' : !MANAGER_ROLES.includes(membership.role)) {
+            return forbidden(
+                res,
+                requireOwner ? 'Only owners can manage owners' : 'Only owners and admins can manage members',
+                'ORGANIZATION_ROLE_REQUIRED'
+            );
+        }
+        return null;
+    }
+
+    private invitationError(res: Response, error: any, fallbackMessage: string): Response {
+        if (error.message === 'Invitation not found') {
+            return notFound(res, error.message);
+        }
+        if (error.message === 'User is already a member') {
+            return conflict(res, error.message, 'ALREADY_MEMBER');
+        }
+
+        console.error(`${fallbackMessage}:`, error);
+        return serverError(res, fallbackMessage);
+    }
+
+    private memberError(res: Response, error: any, fallbackMessage: string): Response {
+        if (error.message === 'Member not found') {
+            return notFound(res, error.message);
+        }
+        if (error.message === 'Organization must keep an owner') {
+            return conflict(res, error.message, 'LAST_OWNER');
+        }
+
+        console.error(`${fallbackMessage}:`, error);
+        return serverError(res, fallbackMessage);
+    }
+}
+
+export const organizationController = new OrganizationController();
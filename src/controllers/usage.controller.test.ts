@@ -0,0 +1,103 @@
+import { Response } from 'express';
+import { userService } from '../services/user.service';
+import { usageReservationService } from '../services/usage-reservation.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { UsageController } from './usage.controller';
+
+jest.mock('../services/user.service', () => ({ userService: { consumeUsage: jest.fn() } }));
+jest.mock('../services/auth.service', () => ({ authService: {} }));
+jest.mock('../services/usage.service', () => ({ usageService: {} }));
+jest.mock('../services/usage-reservation.service', () => ({ usageReservationService: { commit: jest.fn() } }));
+jest.mock('../services/plan.service', () => ({ planService: {} }));
+jest.mock('../services/overage.service', () => ({ overageService: {} }));
+jest.mock('../services/credit.service', () => ({ creditService: {} }));
+
+const commit = usageReservationService.commit as jest.Mock;
+
+const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+};
+
+const commitRequest = (quantity: number) =>
+    ({ user: { id: 'user-1' }, params: { id: 'reservation-1' }, body: { quantity } }) as unknown as AuthRequest;
+
+describe('UsageController.commitReservation', () => {
+    const controller = new UsageController();
+
+    beforeEach(() => {
+        commit.mockReset();
+    });
+
+    it('answers a commit larger than the hold with an INVALID_QUANTITY 400', async () => {
+        commit.mockRejectedValue(new Error('Commit quantity exceeds the reserved quantity'));
+        const res = response();
+
+        await controller.commitReservation(commitRequest(50), res as unknown as Response);
+        expect(commit).toHaveBeenCalledWith('user-1', 'reservation-1', 50);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Commit quantity exceeds the reserved quantity', code: 'INVALID_QUANTITY' }
+        });
+    });
+
+    it('answers a reservation that is no longer held with a 409', async () => {
+        commit.mockRejectedValue(new Error('Reservation is already committed'));
+        const res = response();
+
+        await controller.commitReservation(commitRequest(5), res as unknown as Response);
+        expect(res.status).toHaveBeenCalledWith(409);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Reservation is already committed', code: 'RESERVATION_NOT_HELD' }
+        });
+    });
+});
+
+describe('UsageController.consumeUsage', () => {
+    const controller = new UsageController();
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('answers a consume that does not fit with the standard USAGE_LIMIT_EXCEEDED 429', async () => {
+        (userService.consumeUsage as jest.Mock).mockResolvedValue({
+            user: { id: 'user-1', usageCount: 95, monthlyLimit: 100 },
+            canIncrement: false,
+            error: 'Usage limit exceeded. Current: 95, Limit: 100',
+            wasReset: false
+        });
+        const res = response();
+        const req = {
+            user: { id: 'user-1' },
+            body: { items: [{ feature: 'analysis', quantity: '4' }, { quantity: '3' }] },
+            get: (header: string) => (header === 'X-Request-Id' ? 'request-1' : undefined)
+        } as unknown as AuthRequest;
+
+        await controller.consumeUsage(req, res as unknown as Response);
+
+        expect(userService.consumeUsage).toHaveBeenCalledWith('user-1', [
+            { feature: 'analysis', quantity: 4, metadata: undefined },
+            { feature: undefined, quantity: 3, metadata: undefined }
+        ], 'request-1');
+        expect(res.status).toHaveBeenCalledWith(429);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            data: {
+                message: 'Usage limit exceeded. Current: 95, Limit: 100',
+                code: 'USAGE_LIMIT_EXCEEDED',
+                currentUsage: 95,
+                limit: 100,
+                wasReset: false
+            }
+        });
+    });
+});
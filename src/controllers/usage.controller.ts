@@ -1,79 +1,101 @@
 import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { v4 as uuidv4 } from 'uuid';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { userService } from '../services/user.service';
 import { authService } from '../services/auth.service';
-import { badRequest, notFound, ok, serverError, tooManyRequests } from '../validation/usage.validation';
-
-// In-memory request deduplication cache (use Redis in production)
-const recentRequests = new Map<string, number>();
-const REQUEST_DEDUPE_WINDOW = 5000; // 5 seconds
+import { usageService } from '../services/usage.service';
+import { usageReservationService } from '../services/usage-reservation.service';
+import { planService } from '../services/plan.service';
+import { overageService } from '../services/overage.service';
+import { creditService } from '../services/credit.service';
+import { UsageHistoryInterval, UsageLineItem } from '../models/UsageEvent';
+import { CreditTransactionType } from '../models/Credit';
+import { User } from '../models/User';
+import { badRequest, conflict, created, notFound, ok, serverError, tooManyRequests } from '../validation/usage.validation';
 
 export class UsageController {
     async incrementUsage(req: AuthRequest, res: Response): Promise<Response> {
         try {
-            const userId = req.user!.id;
-            const now = Date.now();
-
-            // Request deduplication - prevent rapid duplicate requests
-            if (recentRequests.has(userId)) {
-                const lastRequestTime = recentRequests.get(userId)!;
-                if (now - lastRequestTime < REQUEST_DEDUPE_WINDOW) {
-                    console.warn(`🚨 Rapid usage request blocked for user ${userId} from ${req.ip}`);
-                    return tooManyRequests(res, {
-                        message: 'Request too frequent. Please wait before trying again.',
-                        code: 'REQUEST_TOO_FREQUENT'
-                    });
-                }
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
             }
-            recentRequests.set(userId, now);
 
-            // Clean up old entries from deduplication cache
-            for (const [key, timestamp] of recentRequests.entries()) {
-                if (now - timestamp > REQUEST_DEDUPE_WINDOW * 2) {
-                    recentRequests.delete(key);
-                }
-            }
+            const userId = req.user!.id;
+
+            // Correlates the ledger entry with this request; clients may supply their own
+            // Retries are deduplicated by the idempotency middleware (Idempotency-Key header)
+            const requestId = req.get('X-Request-Id') || req.get('Idempotency-Key') || uuidv4();
 
             // Increment usage count with atomic limit checking
-            const result = await userService.incrementUsageCount(userId);
+            const result = await userService.incrementUsageCount(userId, {
+                feature: req.body?.feature,
+                requestId,
+                metadata: req.body?.metadata
+            });
 
             if (!result.canIncrement) {
-                // Log usage limit violations for monitoring
-                if (result.error?.includes('limit exceeded')) {
-                    console.warn(`🚨 Usage limit exceeded for user ${userId} from ${req.ip}:`, {
-                        currentUsage: result.user?.usageCount,
-                        monthlyLimit: result.user?.monthlyLimit,
-                        subscriptionTier: result.user?.subscriptionTier
-                    });
-                }
+                return this.usageRejected(req, res, result);
+            }
 
-                // Determine appropriate status code based on error
-                return result.error?.includes('not found') ?
-                    notFound(res, result.error) :
-                    result.error?.includes('limit exceeded') ?
-                        tooManyRequests(res, {
-                            message: result.error,
-                            code: 'USAGE_LIMIT_EXCEEDED',
-                            currentUsage: result.user?.usageCount,
-                            limit: result.user?.monthlyLimit,
-                            wasReset: result.wasReset || false
-                        }) : badRequest(res, result.error, 'INCREMENT_FAILED');
+            return ok(res, {
+                user: authService.sanitizeUser(result.user!),
+                usageCount: result.user!.usageCount,
+                monthlyLimit: result.user!.monthlyLimit,
+                overageCount: result.user!.overageCount,
+                creditQuantity: result.creditQuantity || 0,
+                overageQuantity: result.overageQuantity || 0,
+                wasReset: result.wasReset || false,
+                requestId
+            });
+        } catch (error) {
+            console.error('Increment usage error:', error);
+            return serverError(res, 'Failed to increment usage');
+        }
+    }
 
+    async consumeUsage(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
             }
 
-            // Generate new tokens with updated usage count
-            const tokens = await authService.generateTokens(result.user!);
+            const userId = req.user!.id;
+            const requestId = req.get('X-Request-Id') || req.get('Idempotency-Key') || uuidv4();
+
+            const items: UsageLineItem[] = Array.isArray(req.body.items)
+                ? req.body.items.map((item: any) => ({
+                    feature: item.feature,
+                    quantity: parseInt(item.quantity),
+                    metadata: item.metadata
+                }))
+                : [{ feature: req.body.feature, quantity: parseInt(req.body.quantity), metadata: req.body.metadata }];
+
+            // Checked against the remaining allowance as a whole: either every item is recorded or none is
+            const result = await userService.consumeUsage(userId, items, requestId);
+
+            if (!result.canIncrement) {
+                return this.usageRejected(req, res, result);
+            }
 
             return ok(res, {
-                user: result.user,
-                tokens: tokens,
+                user: authService.sanitizeUser(result.user!),
                 usageCount: result.user!.usageCount,
                 monthlyLimit: result.user!.monthlyLimit,
-                wasReset: result.wasReset || false
+                overageCount: result.user!.overageCount,
+                quantity: items.reduce((total, item) => total + item.quantity, 0),
+                // How much of this request went past the included allowance: paid from credits, then overage
+                creditQuantity: result.creditQuantity || 0,
+                overageQuantity: result.overageQuantity || 0,
+                items,
+                wasReset: result.wasReset || false,
+                requestId
             });
         } catch (error) {
-            console.error('Increment usage error:', error);
-            return serverError(res, 'Failed to increment usage');
+            console.error('Consume usage error:', error);
+            return serverError(res, 'Failed to consume usage');
         }
     }
 
@@ -86,10 +108,25 @@ export class UsageController {
                 return notFound(res, 'User not found');
             }
 
+            const plan = await planService.getPlan(user.subscriptionTier);
+            // usageCount includes credit-paid usage and overage; the included allowance only covers the rest
+            const includedUsed = user.usageCount - (user.creditUsageCount || 0) - (user.overageCount || 0);
+
             return ok(res, {
                 usageCount: user.usageCount,
+                reservedCount: user.reservedCount,
                 monthlyLimit: user.monthlyLimit,
+                includedUsage: includedUsed,
+                // Unlimited plans have a negative limit, so there's no meaningful remainder
+                available: user.monthlyLimit >= 0 ?
+                    Math.max(user.monthlyLimit - includedUsed - user.reservedCount, 0) : null,
+                credits: await creditService.getBalance(user),
+                overage: await overageService.getSummary(user),
                 subscriptionTier: user.subscriptionTier,
+                plan: plan ? { id: plan.id, name: plan.name, features: plan.features } : null,
+                billingCycle: user.billingCycle,
+                currentPeriodStart: user.billingPeriodStart,
+                currentPeriodEnd: user.currentPeriodEnd,
                 usagePercentage: user.monthlyLimit > 0 ?
                     Math.round((user.usageCount / user.monthlyLimit) * 100) : 0
             });
@@ -98,6 +135,275 @@ export class UsageController {
             return serverError(res, 'Failed to get usage data');
         }
     }
+
+    async getOverage(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const user = await userService.findById(req.user!.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            return ok(res, {
+                ...await overageService.getSummary(user),
+                reports: await overageService.findReports(user.id)
+            });
+        } catch (error) {
+            console.error('Get overage error:', error);
+            return serverError(res, 'Failed to get overage');
+        }
+    }
+
+    async updateOverageSpendCap(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const spendCapCents = req.body.spendCapCents === null ? null : parseInt(req.body.spendCapCents);
+            const user = await overageService.setSpendCap(req.user!.id, spendCapCents);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            return ok(res, await overageService.getSummary(user));
+        } catch (error) {
+            console.error('Update overage spend cap error:', error);
+            return serverError(res, 'Failed to update overage spend cap');
+        }
+    }
+
+    async getCredits(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const user = await userService.findById(req.user!.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            return ok(res, await creditService.getBalance(user));
+        } catch (error) {
+            console.error('Get credits error:', error);
+            return serverError(res, 'Failed to get credits');
+        }
+    }
+
+    async getCreditTransactions(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const { transactions, total } = await creditService.findTransactions(req.user!.id, {
+                type: req.query.type as CreditTransactionType | undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                transactions,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            console.error('Get credit transactions error:', error);
+            return serverError(res, 'Failed to get credit transactions');
+        }
+    }
+
+    async createReservation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const userId = req.user!.id;
+            const requestId = req.get('X-Request-Id') || req.get('Idempotency-Key') || uuidv4();
+
+            const result = await usageReservationService.create(userId, {
+                feature: req.body.feature,
+                quantity: parseInt(req.body.quantity),
+                metadata: req.body.metadata,
+                requestId,
+                expiresInSeconds: req.body.expiresInSeconds !== undefined ? parseInt(req.body.expiresInSeconds) : undefined
+            });
+
+            if (!result.reservation) {
+                return this.usageRejected(req, res, result);
+            }
+
+            return created(res, {
+                reservation: result.reservation,
+                usageCount: result.user!.usageCount,
+                reservedCount: result.user!.reservedCount,
+                monthlyLimit: result.user!.monthlyLimit,
+                wasReset: result.wasReset || false
+            }, 'Usage reserved');
+        } catch (error) {
+            console.error('Create reservation error:', error);
+            return serverError(res, 'Failed to reserve usage');
+        }
+    }
+
+    async getReservation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const reservation = await usageReservationService.findById(req.user!.id, req.params.id);
+            if (!reservation) {
+                return notFound(res, 'Reservation not found');
+            }
+
+            return ok(res, { reservation });
+        } catch (error) {
+            console.error('Get reservation error:', error);
+            return serverError(res, 'Failed to get reservation');
+        }
+    }
+
+    async commitReservation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const quantity = req.body?.quantity !== undefined ? parseInt(req.body.quantity) : undefined;
+            const reservation = await usageReservationService.commit(req.user!.id, req.params.id, quantity);
+
+            return ok(res, { reservation });
+        } catch (error: any) {
+            return this.reservationError(res, error, 'Failed to commit reservation');
+        }
+    }
+
+    async releaseReservation(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const reservation = await usageReservationService.release(req.user!.id, req.params.id);
+
+            return ok(res, { reservation });
+        } catch (error: any) {
+            return this.reservationError(res, error, 'Failed to release reservation');
+        }
+    }
+
+    async getUsageHistory(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const user = await userService.findById(req.user!.id);
+            if (!user) {
+                return notFound(res, 'User not found');
+            }
+
+            const history = await usageService.getHistory(user, {
+                interval: (req.query.interval as UsageHistoryInterval) || 'day',
+                periods: parseInt(req.query.periods as string) || 3
+            });
+
+            return ok(res, history);
+        } catch (error) {
+            console.error('Get usage history error:', error);
+            return serverError(res, 'Failed to get usage history');
+        }
+    }
+
+    async getUsageEvents(req: AuthRequest, res: Response): Promise<Response> {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                return badRequest(res, errors.array());
+            }
+
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const { events, total } = await usageService.findEvents(req.user!.id, {
+                feature: req.query.feature as string | undefined,
+                from: req.query.from ? new Date(req.query.from as string) : undefined,
+                to: req.query.to ? new Date(req.query.to as string) : undefined,
+                limit,
+                offset: (page - 1) * limit
+            });
+
+            return ok(res, {
+                events,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit)
+                }
+            });
+        } catch (error) {
+            console.error('Get usage events error:', error);
+            return serverError(res, 'Failed to get usage events');
+        }
+    }
+
+    private reservationError(res: Response, error: any, fallbackMessage: string): Response {
+        if (error.message === 'Reservation not found') {
+            return notFound(res, error.message);
+        }
+        if (error.message === 'Reservation has expired') {
+            return conflict(res, error.message, 'RESERVATION_EXPIRED');
+        }
+        if (error.message?.startsWith('Reservation is already')) {
+            return conflict(res, error.message, 'RESERVATION_NOT_HELD');
+        }
+        if (error.message === 'Commit quantity exceeds the reserved quantity') {
+            return badRequest(res, error.message, 'INVALID_QUANTITY');
+        }
+
+        console.error(`${fallbackMessage}:`, error);
+        return serverError(res, fallbackMessage);
+    }
+
+    private usageRejected(
+        req: AuthRequest,
+        res: Response,
+        result: { user: User | null; error?: string; wasReset?: boolean }
+    ): Response {
+        // Log usage limit violations for monitoring
+        if (result.error?.includes('limit exceeded')) {
+            console.warn(`🚨 Usage limit exceeded for user ${req.user!.id} from ${req.ip}:`, {
+                currentUsage: result.user?.usageCount,
+                monthlyLimit: result.user?.monthlyLimit,
+                subscriptionTier: result.user?.subscriptionTier
+            });
+        }
+
+        // Determine appropriate status code based on error
+        return result.error?.includes('not found') ?
+            notFound(res, result.error) :
+            result.error?.includes('limit exceeded') ?
+                tooManyRequests(res, {
+                    message: result.error,
+                    code: 'USAGE_LIMIT_EXCEEDED',
+                    currentUsage: result.user?.usageCount,
+                    limit: result.user?.monthlyLimit,
+                    wasReset: result.wasReset || false
+                }) : badRequest(res, result.error, 'INCREMENT_FAILED');
+    }
 }
 
 export const usageController = new UsageController();
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { authConfig } from '../config/auth';
+import { userService } from '../services/user.service';
+import { refreshTokenService } from '../services/refresh-token.service';
+import { verifyToken } from '../utils/jwt.util';
+import { JWTPayload } from '../models/User';
 
 // Extend Express Request interface to include user
 declare global {
@@ -13,6 +17,7 @@ declare global {
             monthlyLimit: number;
             lastUsageReset: Date;
             billingPeriodStart: Date;
+            emailVerified: boolean;
         }
     }
 }
@@ -53,38 +58,106 @@ export const authenticateAndEnsureUser = async (
             });
         }
 
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback-secret') as any;
+        let decoded: JWTPayload;
+        try {
+            decoded = verifyToken<JWTPayload>(token, authConfig.accessToken);
+        } catch (error) {
+            console.error('JWT verification error:', error);
+            return res.status(401).json({
+                success: false,
+                error: {
+                    message: 'Invalid or expired token'
+                }
+            });
+        }
 
-        // Add user to request object
-        req.user = {
-            id: decoded.id,
-            email: decoded.email,
-            role: decoded.role || 'user',
-            subscriptionTier: decoded.subscriptionTier || 'free',
-            usageCount: decoded.usageCount || 0,
-            monthlyLimit: decoded.monthlyLimit || 100,
-            lastUsageReset: decoded.lastUsageReset || new Date(),
-            billingPeriodStart: decoded.billingPeriodStart || new Date()
-        };
+        // Revoking a session (or logging out everywhere) revokes its refresh token family, and with it
+        // every access token issued to that session
+        if (decoded.sid && await refreshTokenService.isFamilyRevoked(decoded.sid)) {
+            return res.status(401).json({
+                success: false,
+                error: {
+                    message: 'Session has been revoked'
+                }
+            });
+        }
 
-        // Ensure user exists (this should always pass after the above assignment)
-        if (!req.user) {
-            return res.status(500).json({
+        // The token only proves identity; role, tier and usage come from the database (briefly cached)
+        const user = await userService.findByIdCached(decoded.id);
+
+        if (!user || !user.isActive) {
+            return res.status(401).json({
                 success: false,
                 error: {
-                    message: 'Authentication failed'
+                    message: 'User not found or deactivated'
                 }
             });
         }
 
+        // Add user to request object
+        req.user = {
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            subscriptionTier: user.subscriptionTier,
+            usageCount: user.usageCount,
+            monthlyLimit: user.monthlyLimit,
+            lastUsageReset: user.lastUsageReset,
+            billingPeriodStart: user.billingPeriodStart,
+            emailVerified: !!user.emailVerified
+        };
+
         next();
     } catch (error) {
-        console.error('JWT verification error:', error);
-        return res.status(401).json({
+        next(error);
+    }
+};
+
+/**
+ * Blocks users who haven't verified their email address yet.
+ * Controlled by REQUIRE_EMAIL_VERIFICATION (defaults to on); Google accounts
+ * whose email Google has verified are created verified and always pass.
+ * Must run after authenticateAndEnsureUser.
+ */
+export const requireVerifiedEmail = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Response | void => {
+    if (process.env.REQUIRE_EMAIL_VERIFICATION === 'false') {
+        return next();
+    }
+
+    if (!req.user?.emailVerified) {
+        return res.status(403).json({
+            success: false,
+            error: {
+                message: 'Please verify your email address before continuing',
+                code: 'EMAIL_NOT_VERIFIED'
+            }
+        });
+    }
+
+    next();
+};
+
+/**
+ * Restricts a route to users holding one of the given roles.
+ * Must run after authenticateAndEnsureUser.
+ */
+export const requireRole = (roles: string[]) => (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Response | void => {
+    if (!req.user || !roles.includes(req.user.role)) {
+        return res.status(403).json({
             success: false,
             error: {
-                message: 'Invalid or expired token'
+                message: 'You do not have permission to perform this action'
             }
         });
     }
+
+    next();
 };
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { idempotencyService } from '../services/idempotency.service';
+import { idempotency } from './idempotency.middleware';
+
+jest.mock('../services/idempotency.service', () => ({
+    idempotencyService: { begin: jest.fn(), complete: jest.fn(), release: jest.fn() }
+}));
+
+const begin = idempotencyService.begin as jest.Mock;
+const complete = idempotencyService.complete as jest.Mock;
+const release = idempotencyService.release as jest.Mock;
+
+const request = (key?: string) => ({
+    get: (header: string) => (header === 'Idempotency-Key' ? key : undefined),
+    user: { id: 'user-1' },
+    method: 'POST',
+    baseUrl: '/api/usage',
+    path: '/increment',
+    body: { feature: 'default' }
+}) as unknown as Request;
+
+const response = () => {
+    const res = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        sent: [] as unknown[],
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        set(name: string, value: string) {
+            res.headers[name] = value;
+            return res;
+        },
+        json(body: unknown) {
+            res.sent.push(body);
+            return res;
+        }
+    };
+    return res;
+};
+
+// Run the middleware, let the handler respond with status and body, and wait for the key to be stored
+const handle = async (status: number, body: unknown) => {
+    const res = response();
+    const next = jest.fn();
+
+    await idempotency(request('key-1'), res as unknown as Response, next);
+    expect(next).toHaveBeenCalledWith();
+
+    (res as unknown as Response).status(status).json(body);
+    await new Promise(resolve => setImmediate(resolve));
+    return res;
+};
+
+describe('idempotency middleware', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        begin.mockResolvedValue({ state: 'new' });
+        complete.mockResolvedValue(undefined);
+        release.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('passes requests without a key straight through', async () => {
+        const next = jest.fn();
+
+        await idempotency(request(), response() as unknown as Response, next);
+        expect(next).toHaveBeenCalledWith();
+        expect(begin).not.toHaveBeenCalled();
+    });
+
+    it.each([200, 201, 400, 403, 404])('stores a %i response for replay', async status => {
+        const body = { success: status < 300 };
+        const res = await handle(status, body);
+
+        expect(complete).toHaveBeenCalledWith('user-1', 'key-1', status, body);
+        expect(release).not.toHaveBeenCalled();
+        expect(res.sent).toEqual([body]);
+    });
+
+    it.each([408, 409, 429, 500, 503])('releases the key after a %i so a retry runs again', async status => {
+        const body = { success: false, error: { code: status === 429 ? 'USAGE_LIMIT_EXCEEDED' : 'ERROR' } };
+        const res = await handle(status, body);
+
+        expect(release).toHaveBeenCalledWith('user-1', 'key-1');
+        expect(complete).not.toHaveBeenCalled();
+        expect(res.sent).toEqual([body]);
+    });
+
+    it('still responds when the key cannot be stored', async () => {
+        complete.mockRejectedValue(new Error('store unavailable'));
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const res = await handle(200, { success: true });
+        expect(res.sent).toEqual([{ success: true }]);
+    });
+
+    it('replays a stored response without running the handler', async () => {
+        begin.mockResolvedValue({ state: 'replay', responseStatus: 201, responseBody: { success: true, id: 'event-1' } });
+        const res = response();
+        const next = jest.fn();
+
+        await idempotency(request('key-1'), res as unknown as Response, next);
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(201);
+        expect(res.headers['Idempotent-Replayed']).toBe('true');
+        expect(res.sent).toEqual([{ success: true, id: 'event-1' }]);
+    });
+
+    it.each([
+        ['used with another payload', 'mismatch', 'IDEMPOTENCY_KEY_REUSED'],
+        ['still in progress', 'in_progress', 'IDEMPOTENCY_KEY_IN_PROGRESS']
+    ])('answers with a 409 when the key is %s', async (_, state, code) => {
+        begin.mockResolvedValue({ state });
+        const res = response();
+        const next = jest.fn();
+
+        await idempotency(request('key-1'), res as unknown as Response, next);
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(409);
+        expect(res.sent).toEqual([{ success: false, error: expect.objectContaining({ code }) }]);
+    });
+});
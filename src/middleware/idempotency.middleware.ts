@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService } from '../services/idempotency.service';
+
+const MAX_KEY_LENGTH = 255;
+// Outcomes that may change on a retry (a conflict clearing, a usage limit lifted by a reset, credits or an
+// upgrade), so they aren't stored against the key
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+/**
+ * Idempotency-Key support for unsafe endpoints.
+ * - First request with a key runs normally and its response is stored.
+ * - Retrying with the same key and payload replays the stored response without running again.
+ * - Server errors, 408s, 409s and 429s (e.g. USAGE_LIMIT_EXCEEDED) aren't stored, so a retry runs the request again.
+ * - Reusing a key with a different payload, or while the first request is still running, is a 409.
+ *   A key left in progress by an instance that died mid-request is freed after a few minutes.
+ * Requests without the header are processed normally. Must run after authenticateAndEnsureUser,
+ * since keys are scoped to the user.
+ */
+export const idempotency = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<Response | void> => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+        return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+        return res.status(400).json({
+            success: false,
+            error: {
+                message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+                code: 'IDEMPOTENCY_KEY_INVALID'
+            }
+        });
+    }
+
+    const scope = req.user?.id || req.ip || 'anonymous';
+    const requestHash = crypto
+        .createHash('sha256')
+        .update(JSON.stringify({ method: req.method, path: req.baseUrl + req.path, body: req.body ?? null }))
+        .digest('hex');
+
+    try {
+        const result = await idempotencyService.begin(scope, key, requestHash);
+
+        switch (result.state) {
+            case 'replay':
+                res.set('Idempotent-Replayed', 'true');
+                return res.status(result.responseStatus).json(result.responseBody);
+
+            case 'mismatch':
+                return res.status(409).json({
+                    success: false,
+                    error: {
+                        message: 'This Idempotency-Key was already used with a different request',
+                        code: 'IDEMPOTENCY_KEY_REUSED'
+                    }
+                });
+
+            case 'in_progress':
+                return res.status(409).json({
+                    success: false,
+                    error: {
+                        message: 'A request with this Idempotency-Key is still being processed',
+                        code: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+                    }
+                });
+        }
+    } catch (error) {
+        return next(error);
+    }
+
+    // Store the response before sending it, so a retry can never observe a half-finished key.
+    // Server errors and retryable outcomes release the key instead, letting the client retry the same request.
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+        const persist = res.statusCode >= 500 || RETRYABLE_STATUSES.includes(res.statusCode)
+            ? idempotencyService.release(scope, key)
+            : idempotencyService.complete(scope, key, res.statusCode, body);
+
+        persist
+            .catch(error => console.error('Failed to store idempotent response:', error))
+            .finally(() => originalJson(body));
+
+        return res;
+    };
+
+    next();
+};
@@ -1,10 +1,59 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { IncrementResponse, Options, Store } from 'express-rate-limit';
 import { AuthRequest } from './auth.middleware';
+import { sharedStoreService } from '../services/shared-store.service';
+import { planService } from '../services/plan.service';
+import { PlanId } from '../models/Plan';
+
+// Usage budget for requests whose plan can't be resolved
+const DEFAULT_USAGE_RATE_LIMIT = 20;
+
+// Keeps limiter hit counts in the shared store so every instance counts against the same limit
+export class SharedRateLimitStore implements Store {
+    prefix: string;
+    localKeys = false;
+    private windowMs = 60 * 1000;
+
+    constructor(name: string) {
+        this.prefix = `ratelimit:${name}:`;
+    }
+
+    init(options: Options): void {
+        this.windowMs = options.windowMs;
+    }
+
+    async increment(key: string): Promise<IncrementResponse> {
+        return await sharedStoreService.increment(this.prefix + key, this.windowMs);
+    }
+
+    async decrement(key: string): Promise<void> {
+        await sharedStoreService.decrement(this.prefix + key);
+    }
+
+    async resetKey(key: string): Promise<void> {
+        await sharedStoreService.delete(this.prefix + key);
+    }
+}
+
+// Global per-IP rate limiting for every route
+export const globalRateLimit = rateLimit({
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
+    max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs
+    message: 'Too many requests from this IP, please try again later.',
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: new SharedRateLimitStore('global'),
+    // A store outage shouldn't take the whole API down with it
+    passOnStoreError: true
+});
 
 // Rate limiting for usage operations - stricter limits
 export const usageRateLimit = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 20, // limit each user to 20 usage increments per 15 minutes
+    // Each plan sets its own budget of usage requests per 15 minutes
+    max: async (req: AuthRequest) => {
+        const plan = req.user ? await planService.getPlan(req.user.subscriptionTier as PlanId) : null;
+        return plan?.usageRateLimit || DEFAULT_USAGE_RATE_LIMIT;
+    },
     message: {
         success: false,
         error: {
@@ -14,12 +63,35 @@ export const usageRateLimit = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    store: new SharedRateLimitStore('usage'),
+    passOnStoreError: true,
     keyGenerator: (req: AuthRequest) => {
         // Use user ID from authenticated request for per-user rate limiting
         return req.user?.id || req.ip || 'unknown';
     },
-    skip: (req: AuthRequest) => {
-        // Skip rate limiting for enterprise users
-        return req.user?.subscriptionTier === 'enterprise';
+    skip: async (req: AuthRequest) => {
+        // Plans without a budget (enterprise by default) aren't rate limited
+        const plan = req.user ? await planService.getPlan(req.user.subscriptionTier as PlanId) : null;
+        return plan !== null && plan.usageRateLimit === null;
+    }
+});
+
+// Rate limiting for resending verification emails - a handful per hour per user
+export const resendVerificationRateLimit = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: parseInt(process.env.RESEND_VERIFICATION_MAX_PER_HOUR || '3'),
+    message: {
+        success: false,
+        error: {
+            message: 'Too many verification emails requested. Please try again later.',
+            code: 'RATE_LIMIT_EXCEEDED'
+        }
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: new SharedRateLimitStore('resend-verification'),
+    passOnStoreError: true,
+    keyGenerator: (req: AuthRequest) => {
+        return req.user?.id || req.ip || 'unknown';
     }
-});
\ No newline at end of file
+});
@@ -0,0 +1,63 @@
+export type AuditEventType =
+    | 'auth.login'
+    | 'auth.login_failed'
+    | 'auth.password_changed'
+    | 'auth.password_reset'
+    | 'auth.google_linked'
+    | 'auth.google_reactivated'
+    | 'user.profile_updated'
+    | 'admin.subscription_updated'
+    | 'admin.user_deactivated'
+    | 'admin.user_reactivated'
+    | 'admin.job_triggered'
+    | 'admin.plan_updated'
+    | 'admin.credits_granted'
+    | 'admin.credits_refunded'
+    | 'admin.organization_subscription_updated'
+    | 'organization.created'
+    | 'organization.updated'
+    | 'organization.member_invited'
+    | 'organization.invitation_revoked'
+    | 'organization.member_added'
+    | 'organization.member_updated'
+    | 'organization.member_removed'
+    | 'billing.checkout_started'
+    | 'billing.subscription_updated'
+    | 'billing.dunning_transition'
+    | 'usage.reset';
+
+// Field-level diff: only fields whose value changed are present
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEvent {
+    id: string;
+    eventType: AuditEventType;
+    actorId?: string; // Who did it; null for system actions such as scheduled resets
+    targetUserId?: string; // Whose account was affected
+    changes?: AuditChanges;
+    metadata?: Record<string, unknown>;
+    ipAddress?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+export interface CreateAuditEventData {
+    eventType: AuditEventType;
+    actorId?: string | null;
+    targetUserId?: string | null;
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+    metadata?: Record<string, unknown>;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface AuditEventFilters {
+    eventType?: AuditEventType;
+    actorId?: string;
+    targetUserId?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+}
@@ -0,0 +1,33 @@
+import { User } from './User';
+
+// A webhook event received from the billing provider, stored by its provider event id so redeliveries
+// are recognised and skipped
+export type BillingEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface BillingEvent {
+    id: string; // Provider event id (evt_...)
+    type: string;
+    status: BillingEventStatus;
+    attempts: number;
+    userId?: string;
+    error?: string;
+    payload: unknown;
+    receivedAt: Date;
+    processedAt?: Date;
+    updatedAt: Date;
+}
+
+export interface BillingWebhookResult {
+    eventId: string;
+    type: string;
+    status: BillingEventStatus;
+    duplicate: boolean;
+}
+
+// A subscription state reported by the provider, applied to the user it belongs to
+export interface SubscriptionChange {
+    subscriptionTier?: User['subscriptionTier']; // Left as is when undefined
+    subscriptionId?: string;
+    subscriptionStatus: string;
+    occurredAt: Date; // When the provider created the event; older events than the last applied one are skipped
+}
@@ -0,0 +1,54 @@
+export type CreditTransactionType = 'grant' | 'purchase' | 'consumption' | 'expiry' | 'refund';
+
+// How a pack of credits was added: given away by an admin, or paid for
+export type CreditPackSource = 'grant' | 'purchase';
+
+// A block of prepaid units with its own expiry. Usage past the monthly allowance draws from the
+// soonest-expiring pack first.
+export interface CreditPack {
+    id: string;
+    userId: string;
+    source: CreditPackSource;
+    quantity: number; // Units the pack started with
+    remaining: number;
+    expiresAt: Date;
+    reference?: string; // Invoice, order or ticket the pack was granted for
+    createdBy?: string; // Admin who added it
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Credit ledger entry. Amounts are signed: grants and purchases add units, everything else takes them away.
+export interface CreditTransaction {
+    id: string;
+    userId: string;
+    packId?: string; // Not set on consumption, which can span several packs
+    type: CreditTransactionType;
+    amount: number;
+    requestId?: string; // Usage request that consumed the credits
+    actorId?: string;
+    reason?: string;
+    createdAt: Date;
+}
+
+export interface GrantCreditsData {
+    quantity: number;
+    source: CreditPackSource;
+    expiresAt?: Date; // Defaults to CREDIT_EXPIRY_DAYS from now
+    reference?: string;
+    reason?: string;
+    actorId?: string;
+}
+
+export interface CreditBalance {
+    balance: number; // Unexpired units left across all packs
+    usedThisPeriod: number; // Usage this billing period that credits paid for
+    nextExpiresAt: Date | null;
+    packs: CreditPack[]; // Packs with units left, soonest expiry first
+}
+
+export interface CreditTransactionFilters {
+    type?: CreditTransactionType;
+    limit: number;
+    offset: number;
+}
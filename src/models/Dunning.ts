@@ -0,0 +1,30 @@
+// Where a paying user is in recovering a failed payment:
+//   active -> past_due (payment failed, provider retrying) -> grace (limit stepped down)
+//   -> suspended (limit down to the free plan) -> canceled (moved to the free tier)
+// A successful payment returns the user to active from any state but canceled.
+export type DunningState = 'active' | 'past_due' | 'grace' | 'suspended' | 'canceled';
+
+export interface DunningStateConfig {
+    days: number | null; // How long the state lasts before the scheduler moves on; null for no time limit
+    next: DunningState | null;
+    limitPercent: number; // Share of the plan's monthly limit kept in this state (never below the free plan)
+}
+
+export interface DunningTransition {
+    id: string;
+    userId: string;
+    fromState: DunningState;
+    toState: DunningState;
+    reason: string; // e.g. payment_failed, payment_succeeded, grace_expired, subscription_ended
+    monthlyLimit: number; // The limit applied by the transition
+    createdAt: Date;
+}
+
+// What GET /api/auth/profile shows about the user's payment standing
+export interface DunningStatus {
+    state: DunningState;
+    since?: Date;
+    nextState: DunningState | null;
+    nextTransitionAt?: Date;
+    transitions: DunningTransition[];
+}
@@ -0,0 +1,16 @@
+export interface IdempotencyRecord {
+    scope: string; // Keys are unique per scope (the authenticated user)
+    key: string;
+    requestHash: string; // Fingerprint of method, path and body the key was first used with
+    status: 'in_progress' | 'completed';
+    responseStatus?: number;
+    responseBody?: unknown;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+export type IdempotencyBeginResult =
+    | { state: 'new' }
+    | { state: 'replay'; responseStatus: number; responseBody: unknown }
+    | { state: 'in_progress' }
+    | { state: 'mismatch' };
@@ -0,0 +1,84 @@
+import { PlanId } from './Plan';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+// A team workspace. Members draw usage from one pool sized by the organization's own plan.
+export interface Organization {
+    id: string;
+    name: string;
+    subscriptionTier: PlanId;
+    monthlyLimit: number; // Pool shared by all members; copied from the plan unless overridden
+    monthlyLimitOverride?: number | null;
+    usageCount: number; // Pool usage this period, across all members
+    billingAnchor: Date; // Periods renew monthly on this day (UTC)
+    billingPeriodStart: Date;
+    currentPeriodEnd: Date;
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface Membership {
+    id: string;
+    organizationId: string;
+    userId: string;
+    role: OrganizationRole;
+    monthlyLimit?: number | null; // Sub-cap on this member's share of the pool; no cap when unset
+    usageCount: number; // This member's usage of the pool this period
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// A membership with enough of the user to show in a member list
+export interface OrganizationMember extends Membership {
+    email: string;
+    firstName: string;
+    lastName: string;
+}
+
+// An organization as seen by one of its members
+export interface OrganizationWithRole extends Organization {
+    role: OrganizationRole;
+}
+
+// An offer to join an organization, addressed to an email. Nobody becomes a member until the account with
+// that (verified) email accepts it; accepting or declining deletes it.
+export interface OrganizationInvitation {
+    id: string;
+    organizationId: string;
+    email: string;
+    role: OrganizationRole;
+    monthlyLimit?: number | null; // Sub-cap the member starts with
+    invitedBy?: string | null;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// An invitation as seen by the invitee
+export interface ReceivedInvitation extends OrganizationInvitation {
+    organizationName: string;
+}
+
+export interface UpdateMembershipData {
+    role?: OrganizationRole;
+    monthlyLimit?: number | null;
+}
+
+export interface OrganizationUsageResult {
+    organization: Organization | null;
+    member?: Pick<Membership, 'usageCount' | 'monthlyLimit'>; // The consuming member's share after the request
+    canIncrement: boolean;
+    error?: string;
+    wasReset?: boolean;
+}
+
+export interface OrganizationUsage {
+    usageCount: number;
+    monthlyLimit: number;
+    available: number | null; // null for unlimited pools
+    currentPeriodStart: Date;
+    currentPeriodEnd: Date;
+    members: Array<Pick<OrganizationMember, 'userId' | 'email' | 'firstName' | 'lastName' | 'role' | 'usageCount' | 'monthlyLimit'>>;
+    features: Array<{ feature: string; quantity: number }>;
+}
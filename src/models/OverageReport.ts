@@ -0,0 +1,30 @@
+import { PlanId } from './Plan';
+
+export type OverageReportStatus = 'pending' | 'reported' | 'failed';
+
+// Overage units from one closed billing period, to be reported to the billing provider as metered usage
+export interface OverageReport {
+    id: string; // Also the provider idempotency key, so a retried report is never counted twice
+    userId: string;
+    planId: PlanId;
+    subscriptionId?: string;
+    periodStart: Date;
+    periodEnd: Date;
+    quantity: number;
+    unitPriceCents: number; // Plan price when the period closed
+    status: OverageReportStatus;
+    attempts: number;
+    providerRecordId?: string;
+    error?: string;
+    createdAt: Date;
+    reportedAt?: Date;
+}
+
+// The overage part of GET /api/usage
+export interface OverageSummary {
+    enabled: boolean;
+    units: number;
+    unitPriceCents: number;
+    amountCents: number;
+    spendCapCents: number | null;
+}
@@ -0,0 +1,31 @@
+import { User } from './User';
+
+export type PlanId = User['subscriptionTier'];
+
+// One row per subscription tier; the only place tier limits are defined
+export interface Plan {
+    id: PlanId;
+    name: string;
+    monthlyLimit: number; // Units per billing period; -1 for unlimited
+    features: string[];
+    usageRateLimit: number | null; // Usage requests per 15 minutes; null for no rate limit
+    overageEnabled: boolean; // Whether usage past monthlyLimit is billed instead of rejected
+    overageUnitPriceCents: number;
+    overageSpendCapCents: number; // Most a user can run up in overage per period (users may set a lower cap)
+    stripePriceId?: string | null; // Recurring price used by checkout; plans without one can't be bought online
+    stripeOveragePriceId?: string | null; // Metered price that overage units are reported against
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface UpdatePlanData {
+    name?: string;
+    monthlyLimit?: number;
+    features?: string[];
+    usageRateLimit?: number | null;
+    overageEnabled?: boolean;
+    overageUnitPriceCents?: number;
+    overageSpendCapCents?: number;
+    stripePriceId?: string | null;
+    stripeOveragePriceId?: string | null;
+}
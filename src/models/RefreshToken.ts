@@ -0,0 +1,30 @@
+export interface RefreshToken {
+    id: string;
+    userId: string;
+    familyId: string; // Shared by every token rotated from the same login
+    tokenHash: string;
+    userAgent?: string;
+    ipAddress?: string;
+    sessionStartedAt: Date; // Carried over on rotation so the session keeps its original login time
+    issuedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    replacedBy?: string; // Set when the token was rotated; presenting it again means it was stolen
+}
+
+export interface SessionContext {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+// A login session as shown to the user: one refresh token family, described by its latest token
+export interface Session {
+    id: string; // The token family id
+    device: string;
+    userAgent?: string;
+    ipAddress?: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+}
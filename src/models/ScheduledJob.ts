@@ -0,0 +1,38 @@
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface JobDefinition {
+    name: string;
+    description: string;
+    schedule: string; // 5-field cron expression, UTC
+    // Returns a small summary that is stored as the run's result
+    run: () => Promise<Record<string, unknown> | void>;
+}
+
+// Persisted state of a job, shared by every instance
+export interface ScheduledJob {
+    name: string;
+    schedule: string;
+    nextRunAt: Date;
+    lastStartedAt?: Date;
+    lastFinishedAt?: Date;
+    lastStatus?: JobRunStatus;
+    lastTrigger?: JobTrigger;
+    lastResult?: Record<string, unknown>;
+    lastError?: string;
+    lastDurationMs?: number;
+    runCount: number;
+    failureCount: number;
+    updatedAt: Date;
+}
+
+export interface JobRunResult {
+    name: string;
+    trigger: JobTrigger;
+    status: Exclude<JobRunStatus, 'running'>;
+    startedAt: Date;
+    finishedAt: Date;
+    durationMs: number;
+    result?: Record<string, unknown>;
+    error?: string;
+}
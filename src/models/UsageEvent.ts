@@ -0,0 +1,50 @@
+export interface UsageEvent {
+    id: string;
+    userId: string;
+    feature: string; // Operation key, e.g. "payment_analysis"; "adjustment" for manual corrections
+    quantity: number;
+    requestId?: string;
+    metadata?: Record<string, unknown>;
+    billingPeriodStart: Date; // The billing period the event counted against
+    organizationId?: string; // Set when the usage came out of an organization's pool (userId is the member)
+    createdAt: Date;
+}
+
+export interface UsageEventDetails {
+    feature?: string;
+    requestId?: string;
+    metadata?: Record<string, unknown>;
+}
+
+// One entry of a weighted consumption; each becomes its own ledger event
+export interface UsageLineItem {
+    feature?: string;
+    quantity: number;
+    metadata?: Record<string, unknown>;
+}
+
+export interface UsageEventFilters {
+    feature?: string;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    offset: number;
+}
+
+export type UsageHistoryInterval = 'day' | 'week' | 'month';
+
+export interface UsageHistory {
+    interval: UsageHistoryInterval;
+    from: Date;
+    buckets: Array<{ start: Date; quantity: number }>;
+    periods: Array<{ billingPeriodStart: Date; quantity: number }>;
+    features: Array<{ feature: string; quantity: number }>;
+    projection: {
+        periodStart: Date;
+        periodEnd: Date;
+        used: number;
+        projected: number;
+        monthlyLimit: number;
+        projectedToExceed: boolean;
+    };
+}
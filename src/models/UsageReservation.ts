@@ -0,0 +1,23 @@
+export type UsageReservationStatus = 'held' | 'committed' | 'released' | 'expired';
+
+export interface UsageReservation {
+    id: string;
+    userId: string;
+    feature: string;
+    quantity: number; // Units held against the monthly limit
+    committedQuantity?: number; // Units actually consumed on commit (at most quantity)
+    status: UsageReservationStatus;
+    requestId?: string;
+    metadata?: Record<string, unknown>;
+    expiresAt: Date;
+    resolvedAt?: Date; // When it was committed, released or expired
+    createdAt: Date;
+}
+
+export interface CreateUsageReservationData {
+    feature?: string;
+    quantity: number;
+    metadata?: Record<string, unknown>;
+    requestId?: string;
+    expiresInSeconds?: number; // Defaults to USAGE_RESERVATION_TTL_SECONDS
+}
@@ -1,3 +1,7 @@
+import { DunningState } from './Dunning';
+
+export type BillingCycle = 'monthly' | 'annual';
+
 export interface User {
     id: string;
     email: string;
@@ -9,17 +13,35 @@ export interface User {
     role: 'user' | 'admin';
     subscriptionTier: 'free' | 'pro' | 'business' | 'enterprise';
     monthlyLimit: number;
+    monthlyLimitOverride?: number | null; // Set by an admin for this account; plan changes leave it alone
     usageCount: number;
+    reservedCount: number; // Units held by open usage reservations; they count against monthlyLimit
+    overageCount: number; // Part of usageCount past monthlyLimit this period, billed per unit
+    overageSpendCapCents?: number | null; // User's own overage cap; the plan's cap when unset
+    creditUsageCount: number; // Part of usageCount past monthlyLimit that prepaid credits paid for this period
     lastUsageReset: Date;
+    billingAnchor: Date; // Start of the first billing period; every later period renews on this day of month
+    billingCycle: BillingCycle;
     billingPeriodStart: Date;
+    currentPeriodEnd: Date;
+    timezone?: string; // IANA zone for billing period boundaries; UTC when unset
     isActive: boolean;
+    deactivatedAt?: Date | null;
+    deactivatedBy?: string | null; // Admin who deactivated the account; signing in can't reactivate it
     emailVerified: boolean;
     emailVerificationToken?: string;
+    emailVerificationExpires?: Date;
     passwordResetToken?: string;
     passwordResetExpires?: Date;
+    passwordChangedAt?: Date;
     stripeCustomerId?: string;
     subscriptionId?: string;
     subscriptionStatus?: string;
+    subscriptionSyncedAt?: Date; // Creation time of the last billing event applied to the subscription fields
+    dunningState: DunningState;
+    dunningStateChangedAt?: Date;
+    dunningStateExpiresAt?: Date; // When the scheduler moves the user to the next dunning state
+    dunningReminderSentAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -31,6 +53,7 @@ export interface CreateUserData {
     firstName: string;
     lastName: string;
     companyName?: string;
+    emailVerified?: boolean; // Set for Google accounts whose email Google has already verified
 }
 
 export interface UpdateUserData {
@@ -40,12 +63,27 @@ export interface UpdateUserData {
     googleId?: string;
     role?: 'user' | 'admin';
     isActive?: boolean;
+    deactivatedAt?: Date | null;
+    deactivatedBy?: string | null;
     emailVerified?: boolean;
     subscriptionTier?: 'free' | 'pro' | 'business' | 'enterprise';
     monthlyLimit?: number;
+    monthlyLimitOverride?: number | null;
     usageCount?: number;
     lastUsageReset?: Date;
     billingPeriodStart?: Date;
+    billingCycle?: BillingCycle;
+    currentPeriodEnd?: Date;
+    timezone?: string | null;
+}
+
+export interface UserSearchFilters {
+    search?: string; // Matches email, name or company
+    role?: 'user' | 'admin';
+    subscriptionTier?: 'free' | 'pro' | 'business' | 'enterprise';
+    isActive?: boolean;
+    limit: number;
+    offset: number;
 }
 
 export interface LoginData {
@@ -58,15 +96,11 @@ export interface AuthTokens {
     refreshToken: string;
 }
 
+// Access tokens carry identity only; entitlements and usage are looked up per request
 export interface JWTPayload {
     id: string;
     email: string;
-    role: string;
-    subscriptionTier: string;
-    usageCount: number;
-    monthlyLimit: number;
-    lastUsageReset: Date;
-    billingPeriodStart: Date;
+    sid?: string; // Refresh token family the access token was issued with; absent on older tokens
 }
 
 export interface GoogleProfile {
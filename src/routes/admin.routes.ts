@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller';
+import { authenticateAndEnsureUser, requireRole } from '../middleware/auth.middleware';
+import {
+    grantCreditsValidation,
+    jobNameValidation,
+    listAuditEventsValidation,
+    listCreditTransactionsValidation,
+    listOrganizationsValidation,
+    listUsersValidation,
+    refundCreditsValidation,
+    resetUsageValidation,
+    updateOrganizationSubscriptionValidation,
+    updatePlanValidation,
+    updateSubscriptionValidation,
+    userIdValidation
+} from '../validation/admin.validation';
+
+const router = Router();
+
+// All admin routes require an authenticated admin
+router.use(authenticateAndEnsureUser);
+router.use(requireRole(['admin']));
+
+// User management
+router.get('/users', listUsersValidation, adminController.listUsers);
+router.get('/users/:id', userIdValidation, adminController.getUser);
+router.patch('/users/:id/subscription', updateSubscriptionValidation, adminController.updateSubscription);
+router.post('/users/:id/deactivate', userIdValidation, adminController.deactivateUser);
+router.post('/users/:id/reactivate', userIdValidation, adminController.reactivateUser);
+router.post('/users/:id/reset-usage', resetUsageValidation, adminController.resetUsage);
+
+// Prepaid credits: balance and ledger, grants (free or recorded purchases) and refunds of a pack's remaining units
+router.get('/users/:id/credits', userIdValidation, adminController.getCredits);
+router.get('/users/:id/credits/transactions', listCreditTransactionsValidation, adminController.listCreditTransactions);
+router.post('/users/:id/credits', grantCreditsValidation, adminController.grantCredits);
+router.post('/users/:id/credits/:packId/refund', refundCreditsValidation, adminController.refundCredits);
+
+// Organizations: search, and their plan and pooled monthly limit
+router.get('/organizations', listOrganizationsValidation, adminController.listOrganizations);
+router.patch('/organizations/:id/subscription', updateOrganizationSubscriptionValidation, adminController.updateOrganizationSubscription);
+
+// Audit log
+router.get('/audit', listAuditEventsValidation, adminController.listAuditEvents);
+
+// Plans: limits, features, rate-limit budgets and overage pricing per tier
+router.get('/plans', adminController.listPlans);
+router.patch('/plans/:id', updatePlanValidation, adminController.updatePlan);
+
+// Background jobs: status of every scheduled job, and manual runs
+router.get('/jobs', adminController.listJobs);
+router.post('/jobs/:name/run', jobNameValidation, adminController.runJob);
+
+export default router;
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import passport from 'passport';
 import { authController } from '../controllers/auth.controller';
 import { authenticateAndEnsureUser } from '../middleware/auth.middleware';
-import { loginValidation, registerValidation } from '../validation/auth.validation';
+import { resendVerificationRateLimit } from '../middleware/rateLimit.middleware';
+import { loginValidation, registerValidation, updateProfileValidation } from '../validation/auth.validation';
 
 const router = Router();
 
@@ -10,8 +11,11 @@ const router = Router();
 router.post('/register', registerValidation, authController.register);
 router.post('/login', loginValidation, authController.login);
 router.post('/refresh-token', authController.refreshToken);
+router.post('/logout', authController.logout);
 router.post('/forgot-password', authController.forgotPassword);
 router.post('/reset-password', authController.resetPassword);
+router.get('/verify-email', authController.verifyEmail);
+router.post('/verify-email', authController.verifyEmail);
 
 // Google OAuth routes
 router.get('/google', passport.authenticate('google', {
@@ -27,7 +31,11 @@ router.post('/google/jwt', authController.googleJWTAuth);
 
 // Protected routes (authentication required)
 router.get('/profile', authenticateAndEnsureUser, authController.getProfile);
-router.put('/profile', authenticateAndEnsureUser, authController.updateProfile);
+router.put('/profile', authenticateAndEnsureUser, updateProfileValidation, authController.updateProfile);
 router.post('/change-password', authenticateAndEnsureUser, authController.changePassword);
+router.post('/logout-all', authenticateAndEnsureUser, authController.logoutAll);
+router.get('/sessions', authenticateAndEnsureUser, authController.getSessions);
+router.delete('/sessions/:id', authenticateAndEnsureUser, authController.revokeSession);
+router.post('/resend-verification', authenticateAndEnsureUser, resendVerificationRateLimit, authController.resendVerification);
 
 export default router;
@@ -0,0 +1,9 @@
+import express, { Router } from 'express';
+import { billingController } from '../controllers/billing.controller';
+
+const router = Router();
+
+// Mounted ahead of the JSON body parser: the signature is checked against the exact bytes Stripe sent
+router.post('/stripe', express.raw({ type: 'application/json', limit: '1mb' }), billingController.handleStripeWebhook.bind(billingController));
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { billingController } from '../controllers/billing.controller';
+import { authenticateAndEnsureUser, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { checkoutSessionValidation } from '../validation/billing.validation';
+
+const router = Router();
+
+// All billing routes require authentication
+router.use(authenticateAndEnsureUser);
+
+// Hosted checkout for upgrading to a paid plan; creates the Stripe customer on the first upgrade
+router.post('/checkout-session', requireVerifiedEmail, checkoutSessionValidation, billingController.createCheckoutSession.bind(billingController));
+
+// Stripe customer portal: payment methods, invoices, plan changes and cancellation
+router.post('/portal-session', billingController.createPortalSession.bind(billingController));
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { organizationController } from '../controllers/organization.controller';
+import { authenticateAndEnsureUser, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { securityMiddleware } from '../middleware/security.middleware';
+import { usageRateLimit } from '../middleware/rateLimit.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import {
+    consumeOrganizationUsageValidation,
+    createOrganizationValidation,
+    invitationIdValidation,
+    inviteMemberValidation,
+    memberIdValidation,
+    organizationIdValidation,
+    organizationInvitationIdValidation,
+    updateMemberValidation,
+    updateOrganizationValidation
+} from '../validation/organization.validation';
+
+const router = Router();
+
+// All organization routes require authentication; everything under /:id also requires membership
+router.use(authenticateAndEnsureUser);
+router.use(securityMiddleware);
+
+// Organizations the user belongs to, and creating one (the creator becomes its owner)
+router.get('/', organizationController.listOrganizations.bind(organizationController));
+router.post('/', requireVerifiedEmail, createOrganizationValidation, organizationController.createOrganization.bind(organizationController));
+
+// Invitations addressed to the user's email: accepting one (verified email required) makes them a member
+router.get('/invitations', organizationController.listReceivedInvitations.bind(organizationController));
+router.post('/invitations/:invitationId/accept', requireVerifiedEmail, invitationIdValidation, organizationController.acceptInvitation.bind(organizationController));
+router.post('/invitations/:invitationId/decline', invitationIdValidation, organizationController.declineInvitation.bind(organizationController));
+
+router.get('/:id', organizationIdValidation, organizationController.getOrganization.bind(organizationController));
+router.patch('/:id', updateOrganizationValidation, organizationController.updateOrganization.bind(organizationController));
+
+// Members: owners and admins invite, update (role, per-member monthlyLimit sub-cap) and remove them; anyone can leave
+router.get('/:id/members', organizationIdValidation, organizationController.listMembers.bind(organizationController));
+router.get('/:id/invitations', organizationIdValidation, organizationController.listInvitations.bind(organizationController));
+router.post('/:id/invitations', inviteMemberValidation, organizationController.inviteMember.bind(organizationController));
+router.delete('/:id/invitations/:invitationId', organizationInvitationIdValidation, organizationController.revokeInvitation.bind(organizationController));
+router.patch('/:id/members/:userId', updateMemberValidation, organizationController.updateMember.bind(organizationController));
+router.delete('/:id/members/:userId', memberIdValidation, organizationController.removeMember.bind(organizationController));
+
+// The shared usage pool: this period's usage per member and feature, and consuming from it
+router.get('/:id/usage', organizationIdValidation, organizationController.getUsage.bind(organizationController));
+router.post('/:id/usage/consume', requireVerifiedEmail, usageRateLimit, consumeOrganizationUsageValidation, idempotency, organizationController.consumeUsage.bind(organizationController));
+
+export default router;
@@ -1,8 +1,20 @@
 import { Router } from 'express';
 import { usageController } from '../controllers/usage.controller';
-import { authenticateAndEnsureUser } from '../middleware/auth.middleware';
+import { authenticateAndEnsureUser, requireVerifiedEmail } from '../middleware/auth.middleware';
 import { securityMiddleware } from '../middleware/security.middleware';
 import { usageRateLimit } from '../middleware/rateLimit.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import {
+    commitReservationValidation,
+    consumeUsageValidation,
+    createReservationValidation,
+    incrementUsageValidation,
+    listCreditTransactionsValidation,
+    listUsageEventsValidation,
+    overageSpendCapValidation,
+    reservationIdValidation,
+    usageHistoryValidation
+} from '../validation/usage.validation';
 
 const router = Router();
 
@@ -13,7 +25,32 @@ router.use(securityMiddleware);
 // Get current usage data
 router.get('/', usageController.getUsage.bind(usageController));
 
-// Increment usage count (limits are now checked atomically in the database)
-router.post('/increment', usageRateLimit, usageController.incrementUsage.bind(usageController));
+// Usage trends across billing periods, per-feature breakdown and end-of-period projection
+router.get('/history', usageHistoryValidation, usageController.getUsageHistory.bind(usageController));
+
+// Usage ledger: one entry per increment, kept across monthly resets
+router.get('/events', listUsageEventsValidation, usageController.getUsageEvents.bind(usageController));
+
+// Increment usage count (limits are now checked atomically in the database).
+// Send an Idempotency-Key header to make retries safe.
+router.post('/increment', requireVerifiedEmail, usageRateLimit, incrementUsageValidation, idempotency, usageController.incrementUsage.bind(usageController));
+
+// Consume a weighted quantity, optionally split into line items; all-or-nothing against the remaining allowance
+router.post('/consume', requireVerifiedEmail, usageRateLimit, consumeUsageValidation, idempotency, usageController.consumeUsage.bind(usageController));
+
+// Overage past the monthly limit: this period's units and cost, the user's spend cap and past reports
+router.get('/overage', usageController.getOverage.bind(usageController));
+router.put('/overage', overageSpendCapValidation, usageController.updateOverageSpendCap.bind(usageController));
+
+// Prepaid credits: balance by pack, and the ledger of grants, purchases, consumption, expiry and refunds
+router.get('/credits', usageController.getCredits.bind(usageController));
+router.get('/credits/transactions', listCreditTransactionsValidation, usageController.getCreditTransactions.bind(usageController));
+
+// Reservations: hold units for a long-running job, then commit what it used or release the hold.
+// Holds count against the monthly limit until resolved; expired holds are swept by the scheduler.
+router.post('/reservations', requireVerifiedEmail, usageRateLimit, createReservationValidation, idempotency, usageController.createReservation.bind(usageController));
+router.get('/reservations/:id', reservationIdValidation, usageController.getReservation.bind(usageController));
+router.post('/reservations/:id/commit', commitReservationValidation, idempotency, usageController.commitReservation.bind(usageController));
+router.post('/reservations/:id/release', reservationIdValidation, usageController.releaseReservation.bind(usageController));
 
 export default router;
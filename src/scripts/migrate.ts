@@ -34,8 +34,10 @@ const createTables = async () => {
       is_active BOOLEAN DEFAULT true,
       email_verified BOOLEAN DEFAULT false,
       email_verification_token VARCHAR(255),
+      email_verification_expires TIMESTAMP,
       password_reset_token VARCHAR(255),
       password_reset_expires TIMESTAMP,
+      password_changed_at TIMESTAMP,
       stripe_customer_id VARCHAR(255),
       subscription_id VARCHAR(255),
       subscription_status VARCHAR(50),
@@ -46,6 +48,9 @@ const createTables = async () => {
 
   await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);`, 'Index email');
   await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_active ON users(is_active);`, 'Index is_active');
+  // Who deactivated the account (an admin); such accounts can only be reactivated by an admin
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP;`, 'Add deactivated_at');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_by VARCHAR(36);`, 'Add deactivated_by');
 
   // Add google_id column if it doesn't exist
   await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS google_id VARCHAR(255) UNIQUE;`, 'Add google_id');
@@ -58,8 +63,369 @@ const createTables = async () => {
   await safeQuery(`ALTER TABLE users ALTER COLUMN monthly_limit SET DEFAULT 100;`, 'Set default monthly_limit');
   await safeQuery(`UPDATE users SET monthly_limit = 100 WHERE monthly_limit = 5;`, 'Update existing monthly_limit');
 
+  // Billing anniversaries: each user's periods renew on the day of month of their billing_anchor.
+  // Existing users keep their current (calendar month) periods.
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS billing_anchor TIMESTAMP;`, 'Add billing_anchor');
+  await safeQuery(`UPDATE users SET billing_anchor = COALESCE(billing_period_start, created_at) WHERE billing_anchor IS NULL;`, 'Backfill billing_anchor');
+  await safeQuery(`ALTER TABLE users ALTER COLUMN billing_anchor SET DEFAULT NOW();`, 'Set default billing_anchor');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS billing_cycle VARCHAR(10) NOT NULL DEFAULT 'monthly' CHECK (billing_cycle IN ('monthly', 'annual'));`, 'Add billing_cycle');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMP;`, 'Add current_period_end');
+  await safeQuery(`UPDATE users SET current_period_end = billing_period_start + INTERVAL '1 month' WHERE current_period_end IS NULL;`, 'Backfill current_period_end');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_current_period_end ON users(current_period_end);`, 'Index current_period_end');
+  // Optional IANA time zone for period boundaries (NULL means UTC)
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);`, 'Add timezone');
+
+  // Plans (one row per subscription tier: limits, features, rate-limit budget and overage pricing)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS plans (
+      id VARCHAR(20) PRIMARY KEY CHECK (id IN ('free', 'pro', 'business', 'enterprise')),
+      name VARCHAR(100) NOT NULL,
+      monthly_limit INTEGER NOT NULL CHECK (monthly_limit >= -1),
+      features JSONB NOT NULL DEFAULT '[]',
+      usage_rate_limit INTEGER CHECK (usage_rate_limit > 0),
+      overage_enabled BOOLEAN NOT NULL DEFAULT false,
+      overage_unit_price_cents INTEGER NOT NULL DEFAULT 0 CHECK (overage_unit_price_cents >= 0),
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create plans table');
+
+  // Seed with the limits that used to be hard-coded; later edits go through the admin API
+  await safeQuery(`
+    INSERT INTO plans (id, name, monthly_limit, features, usage_rate_limit) VALUES
+      ('free', 'Free', 100, '["usage_tracking"]', 20),
+      ('pro', 'Pro', 100, '["usage_tracking", "usage_history", "usage_reservations"]', 20),
+      ('business', 'Business', 1000, '["usage_tracking", "usage_history", "usage_reservations", "priority_support"]', 20),
+      ('enterprise', 'Enterprise', -1, '["usage_tracking", "usage_history", "usage_reservations", "priority_support"]', NULL)
+    ON CONFLICT (id) DO NOTHING;
+  `, 'Seed plans');
+  await safeQuery(`ALTER TABLE plans ADD COLUMN IF NOT EXISTS stripe_price_id VARCHAR(255);`, 'Add plans stripe_price_id');
+  // Metered overage: usage past monthly_limit billed per unit up to a spend cap (the user's, or the plan's)
+  await safeQuery(`ALTER TABLE plans ADD COLUMN IF NOT EXISTS overage_spend_cap_cents INTEGER NOT NULL DEFAULT 5000 CHECK (overage_spend_cap_cents >= 0);`, 'Add plans overage_spend_cap_cents');
+  await safeQuery(`ALTER TABLE plans ADD COLUMN IF NOT EXISTS stripe_overage_price_id VARCHAR(255);`, 'Add plans stripe_overage_price_id');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS overage_count INTEGER NOT NULL DEFAULT 0;`, 'Add overage_count');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS overage_spend_cap_cents INTEGER CHECK (overage_spend_cap_cents >= 0);`, 'Add overage_spend_cap_cents');
+  // Usage this period that prepaid credits paid for (part of usage_count, like overage_count)
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS credit_usage_count INTEGER NOT NULL DEFAULT 0;`, 'Add credit_usage_count');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_stripe_customer_id ON users(stripe_customer_id);`, 'Index stripe_customer_id');
+
+  // Per-user limit set by an admin (NULL follows the plan). When the column is first added, users whose
+  // limit doesn't match their plan had it set by hand, so keep it as an override.
+  const overrideColumn = await safeQuery(`
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'monthly_limit_override'
+  `, 'Check monthly_limit_override');
+  if (overrideColumn && overrideColumn.rowCount === 0) {
+    await safeQuery(`ALTER TABLE users ADD COLUMN monthly_limit_override INTEGER;`, 'Add monthly_limit_override');
+    await safeQuery(`
+      UPDATE users u
+      SET monthly_limit_override = u.monthly_limit
+      FROM plans p
+      WHERE p.id = u.subscription_tier AND u.monthly_limit <> p.monthly_limit
+    `, 'Backfill monthly_limit_override');
+  }
+
   await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_google_id ON users(google_id);`, 'Index google_id');
 
+  // Password reset columns (reset tokens are stored as SHA-256 hashes)
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;`, 'Add password_changed_at');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_password_reset_token ON users(password_reset_token);`, 'Index password_reset_token');
+
+  // Email verification (tokens are stored as SHA-256 hashes)
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_expires TIMESTAMP;`, 'Add email_verification_expires');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_email_verification_token ON users(email_verification_token);`, 'Index email_verification_token');
+
+  // Refresh tokens (one row per issued token, grouped into families by login)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      family_id VARCHAR(36) NOT NULL,
+      token_hash VARCHAR(64) UNIQUE NOT NULL,
+      user_agent TEXT,
+      ip_address VARCHAR(64),
+      session_started_at TIMESTAMP DEFAULT NOW(),
+      issued_at TIMESTAMP DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP,
+      revoked_reason VARCHAR(50),
+      replaced_by VARCHAR(36)
+    );
+  `, 'Create refresh_tokens table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);`, 'Index refresh_tokens user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);`, 'Index refresh_tokens family_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);`, 'Index refresh_tokens expires_at');
+  await safeQuery(`ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS session_started_at TIMESTAMP DEFAULT NOW();`, 'Add refresh_tokens session_started_at');
+
+  // Usage ledger (users.usage_count is the cached sum of the current period's events)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS usage_events (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      feature VARCHAR(100) NOT NULL DEFAULT 'default',
+      quantity INTEGER NOT NULL DEFAULT 1,
+      request_id VARCHAR(100),
+      metadata JSONB,
+      billing_period_start TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create usage_events table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON usage_events(user_id, created_at);`, 'Index usage_events user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_usage_events_user_period ON usage_events(user_id, billing_period_start);`, 'Index usage_events billing_period_start');
+
+  // Organizations: team workspaces whose members share one usage pool
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS organizations (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      subscription_tier VARCHAR(20) NOT NULL DEFAULT 'free' REFERENCES plans(id),
+      monthly_limit INTEGER NOT NULL,
+      monthly_limit_override INTEGER,
+      usage_count INTEGER NOT NULL DEFAULT 0,
+      billing_anchor TIMESTAMP NOT NULL DEFAULT NOW(),
+      billing_period_start TIMESTAMP NOT NULL DEFAULT NOW(),
+      current_period_end TIMESTAMP NOT NULL,
+      created_by VARCHAR(36) REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create organizations table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_organizations_current_period_end ON organizations(current_period_end);`, 'Index organizations current_period_end');
+
+  // One row per member; monthly_limit is the member's optional sub-cap on the pool
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS memberships (
+      id VARCHAR(36) PRIMARY KEY,
+      organization_id VARCHAR(36) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+      monthly_limit INTEGER CHECK (monthly_limit >= 0),
+      usage_count INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE (organization_id, user_id)
+    );
+  `, 'Create memberships table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id);`, 'Index memberships user_id');
+
+  // Pending invitations; a membership is only created when the invitee accepts
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS organization_invitations (
+      id VARCHAR(36) PRIMARY KEY,
+      organization_id VARCHAR(36) NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+      email VARCHAR(255) NOT NULL,
+      role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+      monthly_limit INTEGER CHECK (monthly_limit >= 0),
+      invited_by VARCHAR(36) REFERENCES users(id) ON DELETE SET NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE (organization_id, email)
+    );
+  `, 'Create organization_invitations table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email);`, 'Index organization_invitations email');
+
+  // Usage drawn from an organization's pool is attributed to the member (user_id) and the organization
+  await safeQuery(`ALTER TABLE usage_events ADD COLUMN IF NOT EXISTS organization_id VARCHAR(36) REFERENCES organizations(id) ON DELETE CASCADE;`, 'Add usage_events organization_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_usage_events_organization_period ON usage_events(organization_id, billing_period_start) WHERE organization_id IS NOT NULL;`, 'Index usage_events organization_id');
+
+  // Usage reservations (holds against monthly_limit; users.reserved_count is the cached sum of held quantities)
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS reserved_count INTEGER NOT NULL DEFAULT 0;`, 'Add reserved_count');
+
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS usage_reservations (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      feature VARCHAR(100) NOT NULL DEFAULT 'default',
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      committed_quantity INTEGER,
+      status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released', 'expired')),
+      request_id VARCHAR(100),
+      metadata JSONB,
+      expires_at TIMESTAMP NOT NULL,
+      resolved_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create usage_reservations table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_usage_reservations_user_id ON usage_reservations(user_id, created_at);`, 'Index usage_reservations user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_usage_reservations_held_expires_at ON usage_reservations(expires_at) WHERE status = 'held';`, 'Index usage_reservations held expires_at');
+
+  // Scheduled job state (one row per job; runs are serialized across instances with advisory locks)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      name VARCHAR(100) PRIMARY KEY,
+      schedule VARCHAR(100) NOT NULL,
+      next_run_at TIMESTAMP NOT NULL,
+      last_started_at TIMESTAMP,
+      last_finished_at TIMESTAMP,
+      last_status VARCHAR(20) CHECK (last_status IN ('running', 'succeeded', 'failed')),
+      last_trigger VARCHAR(20) CHECK (last_trigger IN ('schedule', 'manual')),
+      last_result JSONB,
+      last_error TEXT,
+      last_duration_ms INTEGER,
+      run_count INTEGER NOT NULL DEFAULT 0,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create scheduled_jobs table');
+
+  // Billing provider webhook events, keyed by the provider's event id so redeliveries are processed once
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS subscription_synced_at TIMESTAMP;`, 'Add subscription_synced_at');
+
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS billing_events (
+      id VARCHAR(255) PRIMARY KEY,
+      type VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 1,
+      user_id VARCHAR(36) REFERENCES users(id) ON DELETE SET NULL,
+      error TEXT,
+      payload JSONB NOT NULL,
+      received_at TIMESTAMP DEFAULT NOW(),
+      processed_at TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create billing_events table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_billing_events_user_id ON billing_events(user_id, received_at);`, 'Index billing_events user_id');
+
+  // Dunning: where a user with a failed payment is in recovering it (see DunningService), and its history
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS dunning_state VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (dunning_state IN ('active', 'past_due', 'grace', 'suspended', 'canceled'));`, 'Add dunning_state');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS dunning_state_changed_at TIMESTAMP;`, 'Add dunning_state_changed_at');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS dunning_state_expires_at TIMESTAMP;`, 'Add dunning_state_expires_at');
+  await safeQuery(`ALTER TABLE users ADD COLUMN IF NOT EXISTS dunning_reminder_sent_at TIMESTAMP;`, 'Add dunning_reminder_sent_at');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_users_dunning ON users(dunning_state, dunning_state_expires_at) WHERE dunning_state <> 'active';`, 'Index dunning_state');
+
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS dunning_transitions (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      from_state VARCHAR(20) NOT NULL,
+      to_state VARCHAR(20) NOT NULL,
+      reason VARCHAR(50) NOT NULL,
+      monthly_limit INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create dunning_transitions table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_dunning_transitions_user_id ON dunning_transitions(user_id, created_at);`, 'Index dunning_transitions user_id');
+
+  // Overage units per closed billing period, reported to the billing provider as metered usage
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS overage_reports (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      plan_id VARCHAR(20) NOT NULL,
+      subscription_id VARCHAR(255),
+      period_start TIMESTAMP NOT NULL,
+      period_end TIMESTAMP NOT NULL,
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      unit_price_cents INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reported', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      provider_record_id VARCHAR(255),
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      reported_at TIMESTAMP
+    );
+  `, 'Create overage_reports table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_overage_reports_user_id ON overage_reports(user_id, period_start);`, 'Index overage_reports user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_overage_reports_unreported ON overage_reports(created_at) WHERE status <> 'reported';`, 'Index overage_reports status');
+
+  // Prepaid credit packs, drawn on once the monthly allowance runs out
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS credit_packs (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      source VARCHAR(20) NOT NULL CHECK (source IN ('grant', 'purchase')),
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      remaining INTEGER NOT NULL CHECK (remaining >= 0 AND remaining <= quantity),
+      expires_at TIMESTAMP NOT NULL,
+      reference VARCHAR(255),
+      created_by VARCHAR(36) REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create credit_packs table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_credit_packs_user_id ON credit_packs(user_id, expires_at) WHERE remaining > 0;`, 'Index credit_packs user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_credit_packs_expires_at ON credit_packs(expires_at) WHERE remaining > 0;`, 'Index credit_packs expires_at');
+
+  // Credit ledger: every grant, purchase, consumption, expiry and refund, with signed amounts
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS credit_transactions (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(36) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      pack_id VARCHAR(36) REFERENCES credit_packs(id) ON DELETE SET NULL,
+      type VARCHAR(20) NOT NULL CHECK (type IN ('grant', 'purchase', 'consumption', 'expiry', 'refund')),
+      amount INTEGER NOT NULL,
+      request_id VARCHAR(100),
+      actor_id VARCHAR(36) REFERENCES users(id) ON DELETE SET NULL,
+      reason TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create credit_transactions table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_credit_transactions_user_id ON credit_transactions(user_id, created_at);`, 'Index credit_transactions user_id');
+
+  // Idempotency keys (stored responses for retried requests)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      scope VARCHAR(64) NOT NULL,
+      key VARCHAR(255) NOT NULL,
+      request_hash VARCHAR(64) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+      response_status INTEGER,
+      response_body JSONB,
+      created_at TIMESTAMP DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL,
+      PRIMARY KEY (scope, key)
+    );
+  `, 'Create idempotency_keys table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);`, 'Index idempotency_keys expires_at');
+
+  // Audit log (append-only: updates and deletes are rejected by a trigger)
+  await safeQuery(`
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id VARCHAR(36) PRIMARY KEY,
+      event_type VARCHAR(50) NOT NULL,
+      actor_id VARCHAR(36),
+      target_user_id VARCHAR(36),
+      changes JSONB,
+      metadata JSONB,
+      ip_address VARCHAR(64),
+      user_agent TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+  `, 'Create audit_events table');
+
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_audit_events_target_user_id ON audit_events(target_user_id, created_at);`, 'Index audit_events target_user_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, created_at);`, 'Index audit_events actor_id');
+  await safeQuery(`CREATE INDEX IF NOT EXISTS idx_audit_events_event_type ON audit_events(event_type, created_at);`, 'Index audit_events event_type');
+
+  await safeQuery(`
+    CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_events is append-only';
+    END;
+    $$ language 'plpgsql';
+  `, 'Create audit append-only function');
+
+  await safeQuery(`
+    DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+    CREATE TRIGGER audit_events_append_only
+      BEFORE UPDATE OR DELETE ON audit_events
+      FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+  `, 'Create audit append-only trigger');
+
   // Fix NULL is_active
   const fixResult = await safeQuery(`
     UPDATE users
@@ -103,8 +469,24 @@ const createTables = async () => {
 
 const dropTables = async () => {
   console.log('Dropping all tables...');
+  await safeQuery('DROP TABLE IF EXISTS scheduled_jobs CASCADE;', 'Drop scheduled_jobs table');
+  await safeQuery('DROP TABLE IF EXISTS credit_transactions CASCADE;', 'Drop credit_transactions table');
+  await safeQuery('DROP TABLE IF EXISTS credit_packs CASCADE;', 'Drop credit_packs table');
+  await safeQuery('DROP TABLE IF EXISTS overage_reports CASCADE;', 'Drop overage_reports table');
+  await safeQuery('DROP TABLE IF EXISTS dunning_transitions CASCADE;', 'Drop dunning_transitions table');
+  await safeQuery('DROP TABLE IF EXISTS billing_events CASCADE;', 'Drop billing_events table');
+  await safeQuery('DROP TABLE IF EXISTS idempotency_keys CASCADE;', 'Drop idempotency_keys table');
+  await safeQuery('DROP TABLE IF EXISTS usage_reservations CASCADE;', 'Drop usage_reservations table');
+  await safeQuery('DROP TABLE IF EXISTS usage_events CASCADE;', 'Drop usage_events table');
+  await safeQuery('DROP TABLE IF EXISTS organization_invitations CASCADE;', 'Drop organization_invitations table');
+  await safeQuery('DROP TABLE IF EXISTS memberships CASCADE;', 'Drop memberships table');
+  await safeQuery('DROP TABLE IF EXISTS organizations CASCADE;', 'Drop organizations table');
+  await safeQuery('DROP TABLE IF EXISTS audit_events CASCADE;', 'Drop audit_events table');
+  await safeQuery('DROP TABLE IF EXISTS refresh_tokens CASCADE;', 'Drop refresh_tokens table');
   await safeQuery('DROP TABLE IF EXISTS users CASCADE;', 'Drop users table');
+  await safeQuery('DROP TABLE IF EXISTS plans CASCADE;', 'Drop plans table');
   await safeQuery('DROP FUNCTION IF EXISTS update_updated_at_column();', 'Drop trigger function');
+  await safeQuery('DROP FUNCTION IF EXISTS prevent_audit_event_changes();', 'Drop audit append-only function');
   console.log('✅ All tables dropped successfully!');
 };
 
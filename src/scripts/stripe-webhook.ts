@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+
+dotenv.config();
+
+/**
+ * Signs a fixture from ./fixtures/stripe with STRIPE_WEBHOOK_SECRET and posts it to the webhook endpoint,
+ * so subscription changes can be exercised without Stripe:
+ *
+ *   npm run billing:webhook -- customer.subscription.updated --customer cus_123 --price price_pro
+ *   npm run billing:webhook -- invoice.payment_failed --customer cus_123 --subscription sub_fixture
+ *
+ * Options: --customer, --subscription, --price, --status (subscription status, default active), --user,
+ * --id (reuse an event id to test redelivery), --url (default http://localhost:$PORT), --print (print the
+ * signed request instead of sending it).
+ */
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'stripe');
+
+const parseArgs = (argv: string[]): { type?: string; options: Record<string, string | true> } => {
+    const options: Record<string, string | true> = {};
+    let type: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--')) {
+            const next = argv[i + 1];
+            options[argv[i].slice(2)] = next !== undefined && !next.startsWith('--') ? argv[++i] : true;
+        } else {
+            type = argv[i];
+        }
+    }
+    return { type, options };
+};
+
+const main = async () => {
+    const { type, options } = parseArgs(process.argv.slice(2));
+    const fixtures = fs.readdirSync(FIXTURES_DIR).map(file => path.basename(file, '.json'));
+
+    if (!type || !fixtures.includes(type)) {
+        console.error(`Usage: stripe-webhook <${fixtures.join('|')}> --customer cus_... [options]`);
+        process.exit(1);
+    }
+
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+        console.error('❌ STRIPE_WEBHOOK_SECRET is not set');
+        process.exit(1);
+    }
+
+    const created = Math.floor(Date.now() / 1000);
+    const values: Record<string, string | number | null> = {
+        eventId: typeof options.id === 'string' ? options.id : `evt_fixture_${uuidv4().replace(/-/g, '')}`,
+        created,
+        periodEnd: created + 30 * 24 * 60 * 60,
+        customerId: typeof options.customer === 'string' ? options.customer : 'cus_fixture',
+        subscriptionId: typeof options.subscription === 'string' ? options.subscription : 'sub_fixture',
+        priceId: typeof options.price === 'string' ? options.price : 'price_fixture',
+        status: typeof options.status === 'string' ? options.status : 'active',
+        userId: typeof options.user === 'string' ? options.user : null
+    };
+
+    const template = fs.readFileSync(path.join(FIXTURES_DIR, `${type}.json`), 'utf8');
+    // Compact, so a printed payload can be pasted into curl byte for byte
+    const payload = JSON.stringify(JSON.parse(
+        template.replace(/"\{\{(\w+)\}\}"/g, (_, name: string) => JSON.stringify(values[name] ?? null))
+    ));
+    const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+    const url = `${typeof options.url === 'string' ? options.url : `http://localhost:${process.env.PORT || 3001}`}/api/billing/webhooks/stripe`;
+
+    if (options.print) {
+        console.log(`POST ${url}`);
+        console.log(`Stripe-Signature: ${signature}`);
+        console.log(payload);
+        return;
+    }
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+        body: payload
+    });
+
+    console.log(`${response.ok ? '✅' : '❌'} ${values.eventId} (${type}) -> ${response.status}`);
+    console.log(await response.text());
+};
+
+main().catch(error => {
+    console.error('❌ Failed to send webhook fixture:', error);
+    process.exit(1);
+});
@@ -2,15 +2,21 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import rateLimit from 'express-rate-limit';
 
 import authRoutes from './routes/auth.routes';
 import usageRoutes from './routes/usage.routes';
+import adminRoutes from './routes/admin.routes';
+import billingRoutes from './routes/billing.routes';
+import billingWebhookRoutes from './routes/billing-webhook.routes';
+import organizationRoutes from './routes/organization.routes';
 
 import { errorHandler } from './middleware/error.middleware';
 import { notFoundHandler } from './middleware/notFound.middleware';
+import { globalRateLimit } from './middleware/rateLimit.middleware';
 
 import { schedulerService } from './services/scheduler.service';
+import { sharedStoreService } from './services/shared-store.service';
+import { parseTrustProxy } from './utils/request.util';
 
 dotenv.config();
 
@@ -19,19 +25,18 @@ import './config/google-oauth';
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy req.ip would be the proxy's address, putting every client in one rate-limit bucket
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 app.use(helmet({
     crossOriginResourcePolicy: { policy: "cross-origin" }
 }));
 
-const limiter = rateLimit({
-    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
-    max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs
-    message: 'Too many requests from this IP, please try again later.',
-    standardHeaders: true,
-    legacyHeaders: false,
-});
+// Provider webhooks are signed and can arrive in bursts, so they skip the per-IP limit and CORS,
+// and need the raw body (registered before express.json below)
+app.use('/api/billing/webhooks', billingWebhookRoutes);
 
-app.use(limiter);
+app.use(globalRateLimit);
 
 console.log("process.env.CORS_ORIGINS", process.env.CORS_ORIGINS);
 
@@ -63,6 +68,9 @@ app.get('/health', (req, res) => {
 
 app.use('/api/auth', authRoutes);
 app.use('/api/usage', usageRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/billing', billingRoutes);
+app.use('/api/organizations', organizationRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -82,8 +90,8 @@ const startServer = async () => {
             console.log(`📊 Health check available at http://localhost:${PORT}/health`);
             console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
 
-            // Start the monthly reset scheduler
-            schedulerService.startMonthlyReset();
+            // Start the background job scheduler
+            schedulerService.start();
         });
 
     } catch (error) {
@@ -95,11 +103,12 @@ const startServer = async () => {
 // Graceful shutdown handlers
 const gracefulShutdown = (signal: string) => {
     console.log(`🛑 ${signal} received, shutting down gracefully...`);
-    schedulerService.stopMonthlyReset();
+    schedulerService.stop();
 
     if (server) {
-        server.close(() => {
+        server.close(async () => {
             console.log('✅ Server closed');
+            await sharedStoreService.close().catch(error => console.error('❌ Failed to close shared store:', error));
             process.exit(0);
         });
     } else {
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { AuditChanges, AuditEvent, AuditEventFilters, CreateAuditEventData } from '../models/AuditEvent';
+
+// Never copied into an audit diff, even if a caller passes a whole user row
+const REDACTED_FIELDS = ['password', 'emailVerificationToken', 'passwordResetToken'];
+
+// Compare the fields present in `after` against `before`, keeping only real changes
+export const diffChanges = (
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined
+): AuditChanges | null => {
+    if (!after) {
+        return null;
+    }
+
+    const changes: AuditChanges = {};
+    for (const [key, to] of Object.entries(after)) {
+        if (to === undefined || REDACTED_FIELDS.includes(key)) continue;
+
+        const from = before ? before[key] : null;
+        if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) {
+            changes[key] = { from: from ?? null, to: to ?? null };
+        }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+};
+
+export class AuditService {
+    async record(event: CreateAuditEventData): Promise<void> {
+        await this.recordMany([event]);
+    }
+
+    // Audit writes are best-effort: a failure is logged loudly but never fails the action being audited
+    async recordMany(events: CreateAuditEventData[]): Promise<void> {
+        if (events.length === 0) {
+            return;
+        }
+
+        const values: any[] = [];
+        const rows = events.map(event => {
+            const changes = diffChanges(event.before, event.after);
+            values.push(
+                uuidv4(),
+                event.eventType,
+                event.actorId || null,
+                event.targetUserId || null,
+                changes ? JSON.stringify(changes) : null,
+                event.metadata ? JSON.stringify(event.metadata) : null,
+                event.ipAddress || null,
+                event.userAgent || null
+            );
+            const offset = values.length - 8;
+            return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+        });
+
+        const query = `
+      INSERT INTO audit_events (
+        id, event_type, actor_id, target_user_id, changes, metadata, ip_address, user_agent
+      ) VALUES ${rows.join(', ')}
+    `;
+
+        try {
+            await dbService.query(query, values);
+        } catch (error) {
+            console.error('❌ Failed to write audit event(s):', events.map(event => event.eventType), error);
+        }
+    }
+
+    async findEvents(filters: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }> {
+        const conditions: string[] = [];
+        const values: any[] = [];
+
+        if (filters.eventType) {
+            values.push(filters.eventType);
+            conditions.push(`event_type = $${values.length}`);
+        }
+        if (filters.actorId) {
+            values.push(filters.actorId);
+            conditions.push(`actor_id = $${values.length}`);
+        }
+        if (filters.targetUserId) {
+            values.push(filters.targetUserId);
+            conditions.push(`target_user_id = $${values.length}`);
+        }
+        if (filters.from) {
+            values.push(filters.from);
+            conditions.push(`created_at >= $${values.length}`);
+        }
+        if (filters.to) {
+            values.push(filters.to);
+            conditions.push(`created_at < $${values.length}`);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await dbService.query<{ total: string }>(`SELECT COUNT(*) AS total FROM audit_events ${where}`, values);
+
+        const query = `
+      SELECT * FROM audit_events
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+        const result = await dbService.query<AuditEvent>(query, [...values, filters.limit, filters.offset]);
+
+        return {
+            events: result.rows,
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+}
+
+export const auditService = new AuditService();
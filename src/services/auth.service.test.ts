@@ -0,0 +1,111 @@
+import { userService } from './user.service';
+import { refreshTokenService } from './refresh-token.service';
+import { AuthService } from './auth.service';
+import { authConfig } from '../config/auth';
+import { hashToken } from '../utils/token.util';
+import { signToken } from '../utils/jwt.util';
+import { RefreshToken } from '../models/RefreshToken';
+
+jest.mock('./user.service', () => ({ userService: { findById: jest.fn() } }));
+jest.mock('./refresh-token.service', () => ({
+    refreshTokenService: { findByHash: jest.fn(), markRotated: jest.fn(), revokeFamily: jest.fn(), create: jest.fn() }
+}));
+jest.mock('./mail.service', () => ({ mailService: {} }));
+jest.mock('./audit.service', () => ({ auditService: { record: jest.fn() } }));
+
+const findByHash = refreshTokenService.findByHash as jest.Mock;
+const markRotated = refreshTokenService.markRotated as jest.Mock;
+const revokeFamily = refreshTokenService.revokeFamily as jest.Mock;
+const create = refreshTokenService.create as jest.Mock;
+
+const user = { id: 'user-1', email: 'ada@example.com', isActive: true };
+
+const refreshToken = signToken({ id: 'user-1', email: 'ada@example.com' }, authConfig.refreshToken, { jwtid: 'token-1' });
+
+const stored = (overrides: Partial<RefreshToken> = {}): RefreshToken => ({
+    id: 'token-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    tokenHash: hashToken(refreshToken),
+    sessionStartedAt: new Date(),
+    issuedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides
+});
+
+describe('AuthService.refreshToken', () => {
+    let service: AuthService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (userService.findById as jest.Mock).mockResolvedValue(user);
+        markRotated.mockResolvedValue(true);
+        revokeFamily.mockResolvedValue(1);
+        create.mockImplementation(async data => data);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        service = new AuthService();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('rotates the token within its family', async () => {
+        findByHash.mockResolvedValue(stored());
+
+        const { tokens } = await service.refreshToken(refreshToken);
+
+        const [, successorId] = markRotated.mock.calls[0];
+        expect(markRotated).toHaveBeenCalledWith('token-1', successorId);
+        expect(create).toHaveBeenCalledWith(expect.objectContaining({
+            id: successorId,
+            familyId: 'family-1',
+            tokenHash: hashToken(tokens.refreshToken)
+        }));
+        expect(tokens.refreshToken).not.toBe(refreshToken);
+        expect(revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+        findByHash.mockResolvedValue(stored({ revokedAt: new Date(), revokedReason: 'rotated', replacedBy: 'token-2' }));
+
+        await expect(service.refreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+        expect(revokeFamily).toHaveBeenCalledWith('family-1', 'reuse_detected');
+        expect(markRotated).not.toHaveBeenCalled();
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('revokes the family when a concurrent refresh already rotated the token', async () => {
+        findByHash.mockResolvedValue(stored());
+        markRotated.mockResolvedValue(false);
+
+        await expect(service.refreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+        expect(revokeFamily).toHaveBeenCalledWith('family-1', 'reuse_detected');
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token from a logged-out session without treating it as reuse', async () => {
+        findByHash.mockResolvedValue(stored({ revokedAt: new Date(), revokedReason: 'logout' }));
+
+        await expect(service.refreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+        expect(revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['is not stored', null],
+        ['belongs to another user', stored({ userId: 'user-2' })],
+        ['has expired', stored({ expiresAt: new Date(Date.now() - 1000) })]
+    ])('rejects a token that %s', async (_, token) => {
+        findByHash.mockResolvedValue(token);
+
+        await expect(service.refreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+        expect(markRotated).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token that was not signed with the refresh key', async () => {
+        const forged = signToken({ id: 'user-1' }, authConfig.accessToken);
+
+        await expect(service.refreshToken(forged)).rejects.toThrow('Invalid refresh token');
+        expect(findByHash).not.toHaveBeenCalled();
+    });
+});
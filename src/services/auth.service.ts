@@ -1,19 +1,22 @@
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { userService } from './user.service';
+import { refreshTokenService } from './refresh-token.service';
+import { mailService } from './mail.service';
+import { auditService } from './audit.service';
+import { authConfig } from '../config/auth';
+import { generateToken, hashToken } from '../utils/token.util';
+import { signToken, verifyToken } from '../utils/jwt.util';
 import { User, AuthTokens, JWTPayload, GoogleProfile } from '../models/User';
+import { Session, SessionContext } from '../models/RefreshToken';
 
 export class AuthService {
-    private jwtSecret: string;
-    private jwtExpiresIn: string;
-    private refreshTokenSecret: string;
-    private refreshTokenExpiresIn: string;
+    private passwordResetExpiresMinutes: number;
+    private emailVerificationExpiresHours: number;
 
     constructor() {
-        this.jwtSecret = process.env.JWT_SECRET || 'fallback-secret-change-in-production';
-        this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || '7d';
-        this.refreshTokenSecret = process.env.REFRESH_TOKEN_SECRET || 'fallback-refresh-secret';
-        this.refreshTokenExpiresIn = process.env.REFRESH_TOKEN_EXPIRES_IN || '30d';
+        this.passwordResetExpiresMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '15');
+        this.emailVerificationExpiresHours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '48');
     }
 
     async register(userData: {
@@ -23,7 +26,7 @@ export class AuthService {
         firstName: string;
         lastName: string;
         companyName?: string;
-    }): Promise<{ user: User; tokens: AuthTokens }> {
+    }, context: SessionContext = {}): Promise<{ user: User; tokens: AuthTokens }> {
         // Check if user already exists
         const existingUser = await userService.findByEmail(userData.email);
         if (existingUser) {
@@ -33,31 +36,44 @@ export class AuthService {
         // Create new user
         const user = await userService.createUser(userData);
 
+        // Password registrations start unverified; a failed email shouldn't fail the signup
+        if (!user.emailVerified) {
+            try {
+                await this.generateEmailVerificationToken(user.id);
+            } catch (error) {
+                console.error('Failed to send verification email:', error);
+            }
+        }
+
         // Generate tokens
-        const tokens = await this.generateTokens(user);
+        const tokens = await this.generateTokens(user, context);
 
         return { user, tokens };
     }
 
-    async login(credentials: { email: string; password: string }): Promise<{ user: User; tokens: AuthTokens }> {
+    async login(credentials: { email: string; password: string }, context: SessionContext = {}): Promise<{ user: User; tokens: AuthTokens }> {
         // Find user by email
         const user = await userService.findByEmail(credentials.email);
         if (!user) {
+            await this.recordFailedLogin(credentials.email, 'unknown_email', context);
             throw new Error('Invalid email or password');
         }
 
         // Check if user has password (traditional login) or googleId (Google OAuth)
         if (!user.password && user.googleId) {
+            await this.recordFailedLogin(credentials.email, 'google_account', context, user.id);
             throw new Error('This account uses Google OAuth. Please sign in with Google.');
         }
 
         if (!user.password) {
+            await this.recordFailedLogin(credentials.email, 'no_password', context, user.id);
             throw new Error('Invalid email or password');
         }
 
         // Validate password
         const isValidPassword = await userService.validatePassword(credentials.password, user.password);
         if (!isValidPassword) {
+            await this.recordFailedLogin(credentials.email, 'wrong_password', context, user.id);
             throw new Error('Invalid email or password');
         }
 
@@ -70,16 +86,34 @@ export class AuthService {
 
         if (!isActive) {
             console.log('User is inactive, throwing error'); // Debug logging
+            await this.recordFailedLogin(credentials.email, 'deactivated', context, user.id);
             throw new Error('Account is deactivated. Please contact support.');
         }
 
         // Generate tokens
-        const tokens = await this.generateTokens(user);
+        const tokens = await this.generateTokens(user, context);
+
+        await auditService.record({
+            eventType: 'auth.login',
+            actorId: user.id,
+            targetUserId: user.id,
+            metadata: { method: 'password' },
+            ...context
+        });
 
         return { user, tokens };
     }
 
-    async authenticateWithGoogle(profile: GoogleProfile): Promise<{ user: User; tokens: AuthTokens; isNewUser: boolean }> {
+    private async recordFailedLogin(email: string, reason: string, context: SessionContext, userId?: string): Promise<void> {
+        await auditService.record({
+            eventType: 'auth.login_failed',
+            targetUserId: userId,
+            metadata: { email, reason },
+            ...context
+        });
+    }
+
+    async authenticateWithGoogle(profile: GoogleProfile, context: SessionContext = {}): Promise<{ user: User; tokens: AuthTokens; isNewUser: boolean }> {
         // Check if user already exists by email
         let user = await userService.findByEmail(profile.email);
 
@@ -87,6 +121,12 @@ export class AuthService {
 
         let isNewUser = false;
 
+        // Only link Google to an existing account when Google vouches for the address; otherwise anyone who
+        // controls an unverified Google identity with the same email could take the account over
+        if (user && user.googleId !== profile.id && !profile.verified_email) {
+            throw new Error('Google email is not verified');
+        }
+
         if (!user) {
             // Check if user exists by Google ID
             user = await userService.findByGoogleId(profile.id);
@@ -100,25 +140,30 @@ export class AuthService {
                     lastName: profile.family_name,
                     emailVerified: profile.verified_email,
                     isActive: true,
-                    role: 'user' as const,
-                    subscriptionTier: 'free' as const,
-                    monthlyLimit: 100,
-                    usageCount: 0
+                    role: 'user' as const
                 };
 
                 user = await userService.createUser(userData);
                 isNewUser = true;
             }
         } else if (!user.isActive) {
+            // Only an admin can undo an admin's deactivation
+            if (user.deactivatedBy) {
+                await this.recordFailedLogin(profile.email, 'deactivated', context, user.id);
+                throw new Error('Account is deactivated. Please contact support.');
+            }
+
             // Existing user but deactivated - reactivate and link Google account
             console.log('Reactivating user:', user.id, 'with Google ID:', profile.id);
+            const previousUser = user;
 
             try {
-                const updateResult = await userService.updateUser(user.id, {
+                const reactivation = {
                     googleId: profile.id,
                     isActive: true,
                     emailVerified: profile.verified_email
-                });
+                };
+                const updateResult = await userService.updateUser(user.id, reactivation);
 
                 if (!updateResult) {
                     console.error('Update user returned null for user ID:', user?.id || 'unknown');
@@ -134,14 +179,38 @@ export class AuthService {
                 }
 
                 console.log('Successfully reactivated user:', user.id, 'isActive:', user.isActive);
+
+                await auditService.record({
+                    eventType: 'auth.google_reactivated',
+                    actorId: user.id,
+                    targetUserId: user.id,
+                    before: { googleId: previousUser.googleId, isActive: previousUser.isActive, emailVerified: previousUser.emailVerified },
+                    after: reactivation,
+                    ...context
+                });
+
                 isNewUser = false;
             } catch (error) {
                 console.error('Error during user reactivation:', error);
                 throw new Error('Account reactivation failed. Please contact support.');
             }
         } else if (!user.googleId) {
-            // Existing active user, just link Google account
-            await userService.updateUser(user.id, { googleId: profile.id });
+            // Existing active user, just link Google account (Google's verification counts as ours)
+            const link = {
+                googleId: profile.id,
+                emailVerified: user.emailVerified || profile.verified_email
+            };
+            await userService.updateUser(user.id, link);
+
+            await auditService.record({
+                eventType: 'auth.google_linked',
+                actorId: user.id,
+                targetUserId: user.id,
+                before: { googleId: user.googleId, emailVerified: user.emailVerified },
+                after: link,
+                ...context
+            });
+
             user = await userService.findById(user.id); // Get updated user
             isNewUser = false;
         }
@@ -151,62 +220,137 @@ export class AuthService {
         }
 
         // Generate tokens
-        const tokens = await this.generateTokens(user);
+        const tokens = await this.generateTokens(user, context);
+
+        await auditService.record({
+            eventType: 'auth.login',
+            actorId: user.id,
+            targetUserId: user.id,
+            metadata: { method: 'google', isNewUser },
+            ...context
+        });
 
         return { user, tokens, isNewUser };
     }
 
-    async refreshToken(refreshToken: string): Promise<{ user: User; tokens: AuthTokens }> {
+    async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<{ user: User; tokens: AuthTokens }> {
+        let decoded: { id: string };
         try {
             // Verify refresh token
-            const decoded = (jwt.verify as any)(refreshToken, this.refreshTokenSecret);
+            decoded = verifyToken<{ id: string }>(refreshToken, authConfig.refreshToken);
+        } catch (error) {
+            throw new Error('Invalid refresh token');
+        }
+
+        const stored = await refreshTokenService.findByHash(hashToken(refreshToken));
+        if (!stored || stored.userId !== decoded.id) {
+            throw new Error('Invalid refresh token');
+        }
 
-            // Find user
-            const user = await userService.findById(decoded.id);
-            if (!user || !user.isActive) {
-                throw new Error('Invalid refresh token');
+        if (stored.revokedAt) {
+            // A rotated token coming back means someone else holds a copy: kill the whole login
+            if (stored.replacedBy) {
+                await this.handleRefreshTokenReuse(stored.familyId, stored.userId);
             }
+            throw new Error('Invalid refresh token');
+        }
 
-            // Generate new tokens
-            const tokens = await this.generateTokens(user);
+        if (new Date(stored.expiresAt) <= new Date()) {
+            throw new Error('Invalid refresh token');
+        }
 
-            return { user, tokens };
-        } catch (error) {
+        // Find user
+        const user = await userService.findById(stored.userId);
+        if (!user || !user.isActive) {
             throw new Error('Invalid refresh token');
         }
+
+        // Rotate: retire the presented token and issue its successor in the same family
+        const nextTokenId = uuidv4();
+        const rotated = await refreshTokenService.markRotated(stored.id, nextTokenId);
+        if (!rotated) {
+            // Lost a race against another refresh with the same token
+            await this.handleRefreshTokenReuse(stored.familyId, stored.userId);
+            throw new Error('Invalid refresh token');
+        }
+
+        const tokens = await this.generateTokens(user, context, stored.familyId, nextTokenId);
+
+        return { user, tokens };
     }
 
-    async generateTokens(user: User): Promise<AuthTokens> {
-        const payload: JWTPayload = {
-            id: user.id,
-            email: user.email,
-            role: user.role,
-            subscriptionTier: user.subscriptionTier,
-            usageCount: user.usageCount,
-            monthlyLimit: user.monthlyLimit,
-            lastUsageReset: user.lastUsageReset,
-            billingPeriodStart: user.billingPeriodStart
-        };
+    // Revoke the session a refresh token belongs to
+    async logout(refreshToken: string): Promise<void> {
+        const stored = await refreshTokenService.findByHash(hashToken(refreshToken));
+        if (stored) {
+            await refreshTokenService.revokeFamily(stored.familyId, 'logout');
+        }
+    }
 
-        const accessToken = (jwt.sign as any)(payload, this.jwtSecret, {
-            expiresIn: this.jwtExpiresIn
-        });
+    // Revoke every session the user has
+    async logoutAll(userId: string): Promise<number> {
+        return await refreshTokenService.revokeAllForUser(userId, 'logout_all');
+    }
 
-        const refreshToken = (jwt.sign as any)(
+    async getSessions(userId: string): Promise<Session[]> {
+        return await refreshTokenService.findActiveSessions(userId);
+    }
+
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        const revoked = await refreshTokenService.revokeSession(userId, sessionId);
+        if (!revoked) {
+            throw new Error('Session not found');
+        }
+    }
+
+    private async handleRefreshTokenReuse(familyId: string, userId: string): Promise<void> {
+        console.warn(`🚨 Refresh token reuse detected for user ${userId}, revoking token family ${familyId}`);
+        await refreshTokenService.revokeFamily(familyId, 'reuse_detected');
+    }
+
+    // Issue an access token plus a refresh token. Without a familyId this starts a new login session.
+    async generateTokens(
+        user: User,
+        context: SessionContext = {},
+        familyId: string = uuidv4(),
+        refreshTokenId: string = uuidv4()
+    ): Promise<AuthTokens> {
+        const accessToken = this.generateAccessToken(user, familyId);
+
+        const refreshToken = signToken(
             { id: user.id, email: user.email },
-            this.refreshTokenSecret,
-            {
-                expiresIn: this.refreshTokenExpiresIn
-            }
+            authConfig.refreshToken,
+            { jwtid: refreshTokenId }
         );
 
+        const { exp } = jwt.decode(refreshToken) as { exp: number };
+        await refreshTokenService.create({
+            id: refreshTokenId,
+            userId: user.id,
+            familyId,
+            tokenHash: hashToken(refreshToken),
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+            expiresAt: new Date(exp * 1000)
+        });
+
         return { accessToken, refreshToken };
     }
 
+    // The session (token family) id lets authentication reject access tokens from a revoked session
+    generateAccessToken(user: User, sessionId: string): string {
+        const payload: JWTPayload = {
+            id: user.id,
+            email: user.email,
+            sid: sessionId
+        };
+
+        return signToken(payload, authConfig.accessToken);
+    }
+
     async verifyToken(token: string): Promise<JWTPayload> {
         try {
-            const decoded = (jwt.verify as any)(token, this.jwtSecret) as JWTPayload;
-            return decoded;
+            return verifyToken<JWTPayload>(token, authConfig.accessToken);
         } catch (error) {
             throw new Error('Invalid or expired token');
         }
@@ -214,35 +358,65 @@ export class AuthService {
 
     async generatePasswordResetToken(email: string): Promise<string> {
         const user = await userService.findByEmail(email);
-        if (!user) {
+        if (!user || !user.isActive) {
             throw new Error('User not found');
         }
 
-        const resetToken = uuidv4();
-        const resetTokenExpiry = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
+        const resetToken = generateToken();
+        const resetTokenExpiry = new Date(Date.now() + this.passwordResetExpiresMinutes * 60 * 1000);
+
+        // Only the hash is persisted; the plain token goes out by email
+        await userService.setPasswordResetToken(user.id, hashToken(resetToken), resetTokenExpiry);
+        await mailService.sendPasswordResetEmail(user.email, resetToken, this.passwordResetExpiresMinutes);
 
-        // In a real implementation, you'd store this in the database
-        // For now, we'll just return the token
         return resetToken;
     }
 
-    async resetPassword(token: string, newPassword: string): Promise<void> {
-        // In a real implementation, you'd validate the token against the database
-        // For now, we'll just update the password (this is simplified)
-        throw new Error('Password reset functionality needs to be implemented with database storage');
+    async resetPassword(token: string, newPassword: string, context: SessionContext = {}): Promise<void> {
+        const user = await userService.resetPasswordWithToken(hashToken(token), newPassword);
+        if (!user) {
+            throw new Error('Invalid or expired password reset token');
+        }
+
+        // Whoever knew the old password shouldn't stay signed in
+        await refreshTokenService.revokeAllForUser(user.id, 'password_reset');
+
+        await auditService.record({
+            eventType: 'auth.password_reset',
+            actorId: user.id,
+            targetUserId: user.id,
+            metadata: { method: 'reset_token' },
+            ...context
+        });
     }
 
     async generateEmailVerificationToken(userId: string): Promise<string> {
-        const verificationToken = uuidv4();
+        const user = await userService.findById(userId);
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.emailVerified) {
+            throw new Error('Email is already verified');
+        }
+
+        const verificationToken = generateToken();
+        const verificationTokenExpiry = new Date(Date.now() + this.emailVerificationExpiresHours * 60 * 60 * 1000);
+
+        // Issuing a new token replaces any previous one
+        await userService.setEmailVerificationToken(user.id, hashToken(verificationToken), verificationTokenExpiry);
+        await mailService.sendEmailVerificationEmail(user.email, verificationToken, this.emailVerificationExpiresHours);
 
-        // In a real implementation, you'd store this in the database
-        // For now, we'll just return the token
         return verificationToken;
     }
 
-    async verifyEmail(token: string): Promise<void> {
-        // In a real implementation, you'd validate the token and update the user's email_verified status
-        throw new Error('Email verification functionality needs to be implemented with database storage');
+    async verifyEmail(token: string): Promise<User> {
+        const user = await userService.verifyEmailWithToken(hashToken(token));
+        if (!user) {
+            throw new Error('Invalid or expired verification token');
+        }
+
+        return user;
     }
 
     // Get user profile (without sensitive data)
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+import { dbService } from './database.service';
+import { userService } from './user.service';
+import { planService } from './plan.service';
+import { auditService } from './audit.service';
+import { dunningService } from './dunning.service';
+import { BillingWebhookService } from './billing-webhook.service';
+
+jest.mock('./database.service', () => ({ dbService: { query: jest.fn() } }));
+jest.mock('./user.service', () => ({
+    userService: { findByStripeCustomerId: jest.fn(), findById: jest.fn(), applySubscriptionChange: jest.fn() }
+}));
+jest.mock('./plan.service', () => ({ planService: { findByStripePriceId: jest.fn() } }));
+jest.mock('./audit.service', () => ({ auditService: { record: jest.fn() } }));
+jest.mock('./dunning.service', () => ({ dunningService: { handleProviderStatus: jest.fn() } }));
+
+const SECRET = 'whsec_test';
+const FIXTURES_DIR = path.join(__dirname, '..', 'scripts', 'fixtures', 'stripe');
+
+const query = dbService.query as jest.Mock;
+const findByStripeCustomerId = userService.findByStripeCustomerId as jest.Mock;
+const applySubscriptionChange = userService.applySubscriptionChange as jest.Mock;
+
+// Fill a fixture template the way the billing:webhook script does
+const fixture = (type: string, values: Record<string, string | number | null> = {}): Buffer => {
+    const created = Math.floor(Date.now() / 1000);
+    const defaults: Record<string, string | number | null> = {
+        eventId: 'evt_test_1',
+        created,
+        periodEnd: created + 30 * 24 * 60 * 60,
+        customerId: 'cus_test',
+        subscriptionId: 'sub_test',
+        priceId: 'price_pro',
+        status: 'active',
+        userId: null
+    };
+    const template = fs.readFileSync(path.join(FIXTURES_DIR, `${type}.json`), 'utf8');
+    return Buffer.from(JSON.stringify(JSON.parse(
+        template.replace(/"\{\{(\w+)\}\}"/g, (_, name: string) => JSON.stringify({ ...defaults, ...values }[name] ?? null))
+    )));
+};
+
+const sign = (payload: Buffer, options: { secret?: string; timestamp?: number } = {}): string =>
+    Stripe.webhooks.generateTestHeaderString({
+        payload: payload.toString(),
+        secret: options.secret || SECRET,
+        timestamp: options.timestamp
+    });
+
+// claimEvent inserts the event (returning a row) unless an earlier delivery holds it
+const claimed = () => query.mockResolvedValueOnce({ rows: [{ id: 'evt_test_1' }] });
+const alreadyClaimed = (status: string) => query
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [{ status }] });
+
+const user = {
+    id: 'user-1',
+    stripeCustomerId: 'cus_test',
+    subscriptionTier: 'free',
+    subscriptionId: 'sub_test',
+    subscriptionStatus: 'active'
+};
+
+describe('BillingWebhookService', () => {
+    let service: BillingWebhookService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        query.mockReset();
+        query.mockResolvedValue({ rows: [] });
+        service = new BillingWebhookService();
+        service.setWebhookSecret(SECRET);
+        findByStripeCustomerId.mockResolvedValue(user);
+        (planService.findByStripePriceId as jest.Mock).mockResolvedValue({ id: 'pro' });
+    });
+
+    describe('signature', () => {
+        it('rejects a payload signed with another secret', async () => {
+            const payload = fixture('customer.subscription.updated');
+
+            await expect(service.handleStripeWebhook(payload, sign(payload, { secret: 'whsec_other' })))
+                .rejects.toThrow('Invalid webhook signature');
+            expect(query).not.toHaveBeenCalled();
+        });
+
+        it('rejects a payload changed after signing', async () => {
+            const signature = sign(fixture('customer.subscription.updated'));
+
+            await expect(service.handleStripeWebhook(fixture('customer.subscription.updated', { priceId: 'price_business' }), signature))
+                .rejects.toThrow('Invalid webhook signature');
+        });
+
+        it('rejects a signature outside the tolerance window', async () => {
+            const payload = fixture('customer.subscription.updated');
+            const timestamp = Math.floor(Date.now() / 1000) - 60 * 60;
+
+            await expect(service.handleStripeWebhook(payload, sign(payload, { timestamp })))
+                .rejects.toThrow('Invalid webhook signature');
+        });
+
+        it('rejects a missing signature header', async () => {
+            await expect(service.handleStripeWebhook(fixture('customer.subscription.updated'), undefined))
+                .rejects.toThrow('Invalid webhook signature');
+        });
+    });
+
+    it('applies a subscription update and records the outcome', async () => {
+        const payload = fixture('customer.subscription.updated');
+        const updated = { ...user, subscriptionTier: 'pro', monthlyLimit: 10000 };
+        claimed();
+        applySubscriptionChange.mockResolvedValue(updated);
+
+        await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toEqual({
+            eventId: 'evt_test_1',
+            type: 'customer.subscription.updated',
+            status: 'processed',
+            duplicate: false
+        });
+
+        expect(planService.findByStripePriceId).toHaveBeenCalledWith('price_pro');
+        expect(applySubscriptionChange).toHaveBeenCalledWith('user-1', {
+            subscriptionTier: 'pro',
+            subscriptionId: 'sub_test',
+            subscriptionStatus: 'active',
+            occurredAt: new Date(JSON.parse(payload.toString()).created * 1000)
+        });
+        expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+            eventType: 'billing.subscription_updated',
+            metadata: { stripeEventId: 'evt_test_1', stripeEventType: 'customer.subscription.updated' }
+        }));
+        expect(dunningService.handleProviderStatus).toHaveBeenCalledWith(updated, 'active');
+        expect(query).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE billing_events'), ['evt_test_1', 'processed', 'user-1']);
+    });
+
+    describe('redelivery', () => {
+        it('acknowledges an event that was already handled without applying it again', async () => {
+            const payload = fixture('customer.subscription.updated');
+            alreadyClaimed('processed');
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toEqual({
+                eventId: 'evt_test_1',
+                type: 'customer.subscription.updated',
+                status: 'processed',
+                duplicate: true
+            });
+            expect(applySubscriptionChange).not.toHaveBeenCalled();
+        });
+
+        it('asks for a redelivery while another attempt is processing the event', async () => {
+            const payload = fixture('customer.subscription.updated');
+            alreadyClaimed('processing');
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).rejects.toThrow('Event is already being processed');
+            expect(applySubscriptionChange).not.toHaveBeenCalled();
+        });
+
+        it('marks the event failed so a redelivery retries it', async () => {
+            const payload = fixture('customer.subscription.updated', { priceId: 'price_unknown' });
+            claimed();
+            (planService.findByStripePriceId as jest.Mock).mockResolvedValue(null);
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).rejects.toThrow('No plan has Stripe price price_unknown');
+            expect(query).toHaveBeenLastCalledWith(
+                expect.stringContaining("status = 'failed'"),
+                ['evt_test_1', 'No plan has Stripe price price_unknown']
+            );
+        });
+    });
+
+    describe('out-of-order delivery', () => {
+        it('skips an event older than the last change applied to the user', async () => {
+            const payload = fixture('customer.subscription.deleted');
+            claimed();
+            applySubscriptionChange.mockResolvedValue(null);
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toMatchObject({ status: 'processed' });
+            expect(applySubscriptionChange).toHaveBeenCalledWith('user-1', expect.objectContaining({ subscriptionTier: 'free' }));
+            expect(auditService.record).not.toHaveBeenCalled();
+            expect(dunningService.handleProviderStatus).not.toHaveBeenCalled();
+        });
+
+        it('ignores the end of a subscription the user has already replaced', async () => {
+            const payload = fixture('customer.subscription.deleted', { subscriptionId: 'sub_old' });
+            claimed();
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toMatchObject({ status: 'ignored' });
+            expect(applySubscriptionChange).not.toHaveBeenCalled();
+        });
+
+        it('ignores an invoice for another subscription', async () => {
+            const payload = fixture('invoice.payment_failed', { subscriptionId: 'sub_old' });
+            claimed();
+
+            await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toMatchObject({ status: 'ignored' });
+            expect(applySubscriptionChange).not.toHaveBeenCalled();
+        });
+    });
+
+    it('moves the user to past_due when a payment fails', async () => {
+        const payload = fixture('invoice.payment_failed');
+        claimed();
+        applySubscriptionChange.mockResolvedValue({ ...user, subscriptionStatus: 'past_due' });
+
+        await expect(service.handleStripeWebhook(payload, sign(payload))).resolves.toMatchObject({ status: 'processed' });
+        expect(applySubscriptionChange).toHaveBeenCalledWith('user-1', expect.objectContaining({ subscriptionStatus: 'past_due' }));
+        expect(applySubscriptionChange.mock.calls[0][1].subscriptionTier).toBeUndefined();
+    });
+});
@@ -0,0 +1,224 @@
+import Stripe from 'stripe';
+import { dbService } from './database.service';
+import { userService } from './user.service';
+import { planService } from './plan.service';
+import { auditService } from './audit.service';
+import { dunningService } from './dunning.service';
+import { User } from '../models/User';
+import { BillingEventStatus, BillingWebhookResult, SubscriptionChange } from '../models/BillingEvent';
+
+// Subscription statuses that keep the paid tier; past_due stays on it while Stripe retries the payment
+const PAID_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+// Statuses that end the subscription; the user drops back to free. Unpaid subscriptions keep their tier
+// and are left to dunning, which steps the limit down and downgrades when the grace period runs out.
+const ENDED_STATUSES: Stripe.Subscription.Status[] = ['canceled', 'incomplete_expired'];
+
+// An event stuck in processing this long (the instance died mid-way) may be picked up again
+const STALE_PROCESSING_MINUTES = 5;
+
+export class BillingWebhookService {
+    private webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    private toleranceSeconds = parseInt(process.env.STRIPE_WEBHOOK_TOLERANCE_SECONDS || '300');
+
+    // Tests and fixtures sign payloads with their own secret
+    setWebhookSecret(secret: string): void {
+        this.webhookSecret = secret;
+    }
+
+    // Verify and apply a Stripe webhook. Each event id is processed once; redeliveries of a processed event
+    // are acknowledged without doing anything, and failed events are retried when Stripe sends them again.
+    async handleStripeWebhook(payload: Buffer, signature: string | undefined): Promise<BillingWebhookResult> {
+        if (!this.webhookSecret) {
+            throw new Error('Webhook secret not configured');
+        }
+
+        let event: Stripe.Event;
+        try {
+            event = Stripe.webhooks.constructEvent(payload, signature || '', this.webhookSecret, this.toleranceSeconds);
+        } catch {
+            throw new Error('Invalid webhook signature');
+        }
+
+        const existingStatus = await this.claimEvent(event);
+        if (existingStatus === 'processing') {
+            // Not acknowledged, so Stripe redelivers in case the other attempt fails
+            throw new Error('Event is already being processed');
+        }
+        if (existingStatus) {
+            return { eventId: event.id, type: event.type, status: existingStatus, duplicate: true };
+        }
+
+        try {
+            const { status, userId } = await this.dispatch(event);
+            await dbService.query(`
+        UPDATE billing_events
+        SET status = $2, user_id = $3, error = NULL, processed_at = NOW(), updated_at = NOW()
+        WHERE id = $1
+      `, [event.id, status, userId || null]);
+
+            return { eventId: event.id, type: event.type, status, duplicate: false };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await dbService.query(`
+        UPDATE billing_events SET status = 'failed', error = $2, updated_at = NOW() WHERE id = $1
+      `, [event.id, message]);
+            throw error;
+        }
+    }
+
+    // Record the event, or take over a failed / abandoned attempt. Returns null once claimed, otherwise the
+    // status of the earlier delivery (handled, or being handled by another request right now).
+    private async claimEvent(event: Stripe.Event): Promise<BillingEventStatus | null> {
+        const result = await dbService.query(`
+      INSERT INTO billing_events (id, type, status, attempts, payload)
+      VALUES ($1, $2, 'processing', 1, $3)
+      ON CONFLICT (id) DO UPDATE
+      SET status = 'processing', attempts = billing_events.attempts + 1, updated_at = NOW()
+      WHERE billing_events.status = 'failed'
+      OR (billing_events.status = 'processing' AND billing_events.updated_at < NOW() - ($4 * INTERVAL '1 minute'))
+      RETURNING id
+    `, [event.id, event.type, JSON.stringify(event), STALE_PROCESSING_MINUTES]);
+
+        if (result.rows.length > 0) {
+            return null;
+        }
+
+        const existing = await dbService.query<{ status: BillingEventStatus }>(
+            'SELECT status FROM billing_events WHERE id = $1',
+            [event.id]
+        );
+        return existing.rows[0]?.status || 'processing';
+    }
+
+    private async dispatch(event: Stripe.Event): Promise<{ status: BillingEventStatus; userId?: string }> {
+        const occurredAt = new Date(event.created * 1000);
+
+        switch (event.type) {
+            case 'customer.subscription.created':
+            case 'customer.subscription.updated':
+                return await this.handleSubscriptionChanged(event.data.object, occurredAt, event);
+            case 'customer.subscription.deleted':
+                return await this.handleSubscriptionDeleted(event.data.object, occurredAt, event);
+            case 'invoice.payment_succeeded':
+                return await this.handleInvoice(event.data.object, 'active', occurredAt, event);
+            case 'invoice.payment_failed':
+                return await this.handleInvoice(event.data.object, 'past_due', occurredAt, event);
+            default:
+                return { status: 'ignored' };
+        }
+    }
+
+    private async handleSubscriptionChanged(
+        subscription: Stripe.Subscription,
+        occurredAt: Date,
+        event: Stripe.Event
+    ): Promise<{ status: BillingEventStatus; userId?: string }> {
+        const user = await this.findUser(subscription.customer, subscription.metadata?.userId);
+        if (!user) {
+            return { status: 'ignored' };
+        }
+
+        let subscriptionTier: SubscriptionChange['subscriptionTier'];
+        if (PAID_STATUSES.includes(subscription.status)) {
+            const priceId = subscription.items.data[0]?.price.id;
+            const plan = priceId ? await planService.findByStripePriceId(priceId) : null;
+            if (!plan) {
+                // Fail so Stripe redelivers once the price has been assigned to a plan
+                throw new Error(`No plan has Stripe price ${priceId}`);
+            }
+            subscriptionTier = plan.id;
+        } else if (ENDED_STATUSES.includes(subscription.status)) {
+            if (user.subscriptionId && user.subscriptionId !== subscription.id) {
+                return { status: 'ignored', userId: user.id };
+            }
+            subscriptionTier = 'free';
+        }
+
+        await this.apply(user, event, {
+            subscriptionTier,
+            subscriptionId: subscription.id,
+            subscriptionStatus: subscription.status,
+            occurredAt
+        });
+        return { status: 'processed', userId: user.id };
+    }
+
+    private async handleSubscriptionDeleted(
+        subscription: Stripe.Subscription,
+        occurredAt: Date,
+        event: Stripe.Event
+    ): Promise<{ status: BillingEventStatus; userId?: string }> {
+        const user = await this.findUser(subscription.customer, subscription.metadata?.userId);
+        // An old subscription ending after the user already started a new one doesn't affect the new one
+        if (!user || (user.subscriptionId && user.subscriptionId !== subscription.id)) {
+            return { status: 'ignored', userId: user?.id };
+        }
+
+        await this.apply(user, event, {
+            subscriptionTier: 'free',
+            subscriptionId: subscription.id,
+            subscriptionStatus: 'canceled',
+            occurredAt
+        });
+        return { status: 'processed', userId: user.id };
+    }
+
+    // Invoice outcomes only move the status; the tier follows the subscription events
+    private async handleInvoice(
+        invoice: Stripe.Invoice,
+        subscriptionStatus: 'active' | 'past_due',
+        occurredAt: Date,
+        event: Stripe.Event
+    ): Promise<{ status: BillingEventStatus; userId?: string }> {
+        const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id;
+        if (!subscriptionId || !invoice.customer) {
+            return { status: 'ignored' };
+        }
+
+        const user = await this.findUser(invoice.customer);
+        if (!user || user.subscriptionId !== subscriptionId || user.subscriptionStatus === 'canceled') {
+            return { status: 'ignored', userId: user?.id };
+        }
+
+        await this.apply(user, event, { subscriptionStatus, occurredAt });
+        return { status: 'processed', userId: user.id };
+    }
+
+    private async apply(user: User, event: Stripe.Event, change: SubscriptionChange): Promise<void> {
+        const updatedUser = await userService.applySubscriptionChange(user.id, change);
+        if (!updatedUser) {
+            console.log(`🔧 Skipped out-of-order billing event ${event.id} (${event.type}) for user ${user.id}`);
+            return;
+        }
+
+        await auditService.record({
+            eventType: 'billing.subscription_updated',
+            targetUserId: user.id,
+            before: user,
+            after: {
+                subscriptionTier: updatedUser.subscriptionTier,
+                monthlyLimit: updatedUser.monthlyLimit,
+                subscriptionId: updatedUser.subscriptionId,
+                subscriptionStatus: updatedUser.subscriptionStatus
+            },
+            metadata: { stripeEventId: event.id, stripeEventType: event.type }
+        });
+
+        await dunningService.handleProviderStatus(updatedUser, change.subscriptionStatus);
+    }
+
+    // Users are matched by Stripe customer; the user id in the subscription metadata is the fallback
+    private async findUser(
+        customer: string | Stripe.Customer | Stripe.DeletedCustomer,
+        userId?: string
+    ): Promise<User | null> {
+        const customerId = typeof customer === 'string' ? customer : customer.id;
+        const user = await userService.findByStripeCustomerId(customerId);
+        if (user || !userId) {
+            return user;
+        }
+        return await userService.findById(userId);
+    }
+}
+
+export const billingWebhookService = new BillingWebhookService();
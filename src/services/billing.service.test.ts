@@ -0,0 +1,83 @@
+import Stripe from 'stripe';
+import { planService } from './plan.service';
+import { BillingService, CreateCheckoutSessionParams, FakeBillingProvider, StripeBillingProvider } from './billing.service';
+import { User } from '../models/User';
+
+jest.mock('./database.service', () => ({ dbService: { query: jest.fn() } }));
+jest.mock('./user.service', () => ({ userService: { invalidateCachedUser: jest.fn(), findById: jest.fn() } }));
+jest.mock('./plan.service', () => ({ planService: { getPlan: jest.fn() } }));
+
+const getPlan = planService.getPlan as jest.Mock;
+
+const proPlan = {
+    id: 'pro',
+    stripePriceId: 'price_pro',
+    overageEnabled: true,
+    stripeOveragePriceId: 'price_pro_overage'
+};
+
+const user = { id: 'user-1', email: 'ada@example.com', stripeCustomerId: 'cus_1' } as User;
+
+describe('BillingService.createCheckoutSession', () => {
+    let service: BillingService;
+    let provider: FakeBillingProvider;
+
+    beforeEach(() => {
+        getPlan.mockReset();
+        provider = new FakeBillingProvider('http://localhost:3000');
+        service = new BillingService();
+        service.setProvider(provider);
+    });
+
+    it('adds the metered overage price for plans that bill overage', async () => {
+        getPlan.mockResolvedValue(proPlan);
+
+        await service.createCheckoutSession(user, 'pro');
+        expect(provider.checkoutSessions[0]).toMatchObject({
+            customerId: 'cus_1',
+            priceId: 'price_pro',
+            meteredPriceId: 'price_pro_overage'
+        });
+    });
+
+    it.each([
+        ['overage is off', { ...proPlan, overageEnabled: false }],
+        ['the plan has no metered price', { ...proPlan, stripeOveragePriceId: null }]
+    ])('leaves the metered price out when %s', async (_, plan) => {
+        getPlan.mockResolvedValue(plan);
+
+        await service.createCheckoutSession(user, 'pro');
+        expect(provider.checkoutSessions[0].meteredPriceId).toBeUndefined();
+    });
+});
+
+describe('StripeBillingProvider.createCheckoutSession', () => {
+    const params: CreateCheckoutSessionParams = {
+        customerId: 'cus_1',
+        priceId: 'price_pro',
+        userId: 'user-1',
+        planId: 'pro',
+        successUrl: 'http://localhost:3000/billing/success',
+        cancelUrl: 'http://localhost:3000/billing'
+    };
+
+    const lineItemsFor = async (checkoutParams: CreateCheckoutSessionParams) => {
+        const provider = new StripeBillingProvider('sk_test_123');
+        const create = jest.spyOn(provider['stripe'].checkout.sessions, 'create')
+            .mockResolvedValue({ id: 'cs_1', url: 'https://checkout.stripe.com/cs_1' } as any);
+
+        await provider.createCheckoutSession(checkoutParams);
+        return (create.mock.calls[0][0] as Stripe.Checkout.SessionCreateParams).line_items;
+    };
+
+    it('subscribes to the metered price without a quantity', async () => {
+        await expect(lineItemsFor({ ...params, meteredPriceId: 'price_pro_overage' })).resolves.toEqual([
+            { price: 'price_pro', quantity: 1 },
+            { price: 'price_pro_overage' }
+        ]);
+    });
+
+    it('only subscribes to the plan price otherwise', async () => {
+        await expect(lineItemsFor(params)).resolves.toEqual([{ price: 'price_pro', quantity: 1 }]);
+    });
+});
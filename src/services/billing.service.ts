@@ -0,0 +1,300 @@
+import Stripe from 'stripe';
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { userService } from './user.service';
+import { planService } from './plan.service';
+import { User } from '../models/User';
+import { PlanId } from '../models/Plan';
+
+export interface CreateCustomerParams {
+    userId: string;
+    email: string;
+    name: string;
+}
+
+export interface CreateCheckoutSessionParams {
+    customerId: string;
+    priceId: string;
+    meteredPriceId?: string; // Overage price, added as a metered item so closed periods can be billed under it
+    userId: string;
+    planId: PlanId;
+    successUrl: string;
+    cancelUrl: string;
+}
+
+export interface CreatePortalSessionParams {
+    customerId: string;
+    returnUrl: string;
+}
+
+export interface ReportUsageParams {
+    subscriptionId: string;
+    priceId: string; // Metered price on the subscription that the units are billed under
+    quantity: number;
+    timestamp: Date;
+    idempotencyKey: string;
+}
+
+export interface HostedSession {
+    id: string;
+    url: string;
+}
+
+// The payment provider calls the billing endpoints need. Swap implementations with billingService.setProvider().
+export interface BillingProvider {
+    createCustomer(params: CreateCustomerParams): Promise<{ id: string }>;
+    createCheckoutSession(params: CreateCheckoutSessionParams): Promise<HostedSession>;
+    createPortalSession(params: CreatePortalSessionParams): Promise<HostedSession>;
+    cancelSubscription(subscriptionId: string): Promise<void>;
+    // Add metered units to a subscription; returns the provider's usage record id
+    reportUsage(params: ReportUsageParams): Promise<{ id: string }>;
+}
+
+// Talks to the real Stripe API
+export class StripeBillingProvider implements BillingProvider {
+    private stripe: Stripe;
+
+    constructor(secretKey: string) {
+        this.stripe = new Stripe(secretKey, { apiVersion: '2023-10-16' });
+    }
+
+    async createCustomer(params: CreateCustomerParams): Promise<{ id: string }> {
+        const customer = await this.stripe.customers.create({
+            email: params.email,
+            name: params.name,
+            metadata: { userId: params.userId }
+        }, {
+            // A retried request after a timeout shouldn't leave a second customer behind
+            idempotencyKey: `customer-${params.userId}`
+        });
+        return { id: customer.id };
+    }
+
+    async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<HostedSession> {
+        const metadata = { userId: params.userId, planId: params.planId };
+        // Metered prices are billed on reported usage, so Stripe doesn't take a quantity for them
+        const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [{ price: params.priceId, quantity: 1 }];
+        if (params.meteredPriceId) {
+            lineItems.push({ price: params.meteredPriceId });
+        }
+
+        const session = await this.stripe.checkout.sessions.create({
+            mode: 'subscription',
+            customer: params.customerId,
+            client_reference_id: params.userId,
+            line_items: lineItems,
+            success_url: params.successUrl,
+            cancel_url: params.cancelUrl,
+            metadata,
+            subscription_data: { metadata }
+        });
+        return { id: session.id, url: session.url! };
+    }
+
+    async createPortalSession(params: CreatePortalSessionParams): Promise<HostedSession> {
+        const session = await this.stripe.billingPortal.sessions.create({
+            customer: params.customerId,
+            return_url: params.returnUrl
+        });
+        return { id: session.id, url: session.url };
+    }
+
+    async cancelSubscription(subscriptionId: string): Promise<void> {
+        await this.stripe.subscriptions.cancel(subscriptionId);
+    }
+
+    async reportUsage(params: ReportUsageParams): Promise<{ id: string }> {
+        const subscription = await this.stripe.subscriptions.retrieve(params.subscriptionId);
+        const item = subscription.items.data.find(candidate => candidate.price.id === params.priceId);
+        if (!item) {
+            throw new Error(`Subscription ${params.subscriptionId} has no item for metered price ${params.priceId}`);
+        }
+
+        const record = await this.stripe.subscriptionItems.createUsageRecord(item.id, {
+            quantity: params.quantity,
+            timestamp: Math.floor(params.timestamp.getTime() / 1000),
+            action: 'increment'
+        }, {
+            idempotencyKey: params.idempotencyKey
+        });
+        return { id: record.id };
+    }
+}
+
+// Keeps everything in memory and hands out local URLs, for development and tests without Stripe
+export class FakeBillingProvider implements BillingProvider {
+    customers: Array<CreateCustomerParams & { id: string }> = [];
+    checkoutSessions: Array<CreateCheckoutSessionParams & HostedSession> = [];
+    portalSessions: Array<CreatePortalSessionParams & HostedSession> = [];
+    canceledSubscriptions: string[] = [];
+    usageRecords: Array<ReportUsageParams & { id: string }> = [];
+
+    constructor(private baseUrl: string) { }
+
+    async createCustomer(params: CreateCustomerParams): Promise<{ id: string }> {
+        const customer = { ...params, id: `cus_fake_${uuidv4().replace(/-/g, '')}` };
+        this.customers.push(customer);
+        return { id: customer.id };
+    }
+
+    async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<HostedSession> {
+        const id = `cs_fake_${uuidv4().replace(/-/g, '')}`;
+        const session = { ...params, id, url: `${this.baseUrl}/fake-billing/checkout/${id}` };
+        this.checkoutSessions.push(session);
+        return { id: session.id, url: session.url };
+    }
+
+    async createPortalSession(params: CreatePortalSessionParams): Promise<HostedSession> {
+        const id = `bps_fake_${uuidv4().replace(/-/g, '')}`;
+        const session = { ...params, id, url: `${this.baseUrl}/fake-billing/portal/${id}` };
+        this.portalSessions.push(session);
+        return { id: session.id, url: session.url };
+    }
+
+    async cancelSubscription(subscriptionId: string): Promise<void> {
+        this.canceledSubscriptions.push(subscriptionId);
+    }
+
+    async reportUsage(params: ReportUsageParams): Promise<{ id: string }> {
+        // Same idempotency as Stripe: a repeated key returns the original record
+        const existing = this.usageRecords.find(record => record.idempotencyKey === params.idempotencyKey);
+        if (existing) {
+            return { id: existing.id };
+        }
+
+        const record = { ...params, id: `mbur_fake_${uuidv4().replace(/-/g, '')}` };
+        this.usageRecords.push(record);
+        return { id: record.id };
+    }
+}
+
+// Tiers that can be bought through checkout; enterprise is arranged by sales
+export const CHECKOUT_PLANS: PlanId[] = ['pro', 'business'];
+
+// Subscription statuses that mean the user is already paying; they manage their plan in the portal instead
+const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+export class BillingService {
+    private provider: BillingProvider;
+    private frontendUrl: string;
+
+    constructor() {
+        this.frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+        // Production always bills through Stripe unless the fake provider is asked for by name
+        const defaultProvider = process.env.STRIPE_SECRET_KEY || process.env.NODE_ENV === 'production' ? 'stripe' : 'fake';
+        this.provider = this.createProvider(process.env.BILLING_PROVIDER || defaultProvider);
+    }
+
+    setProvider(provider: BillingProvider): void {
+        this.provider = provider;
+    }
+
+    // Start a hosted checkout for a paid plan. The tier itself only changes once the provider confirms payment.
+    async createCheckoutSession(user: User, planId: PlanId): Promise<HostedSession> {
+        if (!CHECKOUT_PLANS.includes(planId)) {
+            throw new Error('Plan is not available for checkout');
+        }
+        if (user.subscriptionId && ACTIVE_SUBSCRIPTION_STATUSES.includes(user.subscriptionStatus || '')) {
+            throw new Error('Subscription already active');
+        }
+
+        const plan = await planService.getPlan(planId);
+        if (!plan || !plan.stripePriceId) {
+            throw new Error('Plan is not available for checkout');
+        }
+
+        const customerId = await this.ensureCustomer(user);
+
+        return await this.provider.createCheckoutSession({
+            customerId,
+            priceId: plan.stripePriceId,
+            meteredPriceId: plan.overageEnabled && plan.stripeOveragePriceId ? plan.stripeOveragePriceId : undefined,
+            userId: user.id,
+            planId,
+            successUrl: process.env.BILLING_SUCCESS_URL || `${this.frontendUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
+            cancelUrl: process.env.BILLING_CANCEL_URL || `${this.frontendUrl}/billing`
+        });
+    }
+
+    // Open the provider's self-service portal (payment methods, invoices, plan changes, cancellation)
+    async createPortalSession(user: User): Promise<HostedSession> {
+        if (!user.stripeCustomerId) {
+            throw new Error('No billing account');
+        }
+
+        return await this.provider.createPortalSession({
+            customerId: user.stripeCustomerId,
+            returnUrl: process.env.BILLING_PORTAL_RETURN_URL || `${this.frontendUrl}/billing`
+        });
+    }
+
+    // Stop billing a subscription at the provider (used when dunning gives up on a failed payment)
+    async cancelSubscription(subscriptionId: string): Promise<void> {
+        await this.provider.cancelSubscription(subscriptionId);
+    }
+
+    async reportUsage(params: ReportUsageParams): Promise<{ id: string }> {
+        return await this.provider.reportUsage(params);
+    }
+
+    // The user's provider customer id, creating the customer on their first upgrade
+    private async ensureCustomer(user: User): Promise<string> {
+        if (user.stripeCustomerId) {
+            return user.stripeCustomerId;
+        }
+
+        const customer = await this.provider.createCustomer({
+            userId: user.id,
+            email: user.email,
+            name: `${user.firstName} ${user.lastName}`.trim()
+        });
+
+        // Only the first concurrent request gets to store its customer; the others use the stored one
+        const result = await dbService.query<User>(`
+      UPDATE users
+      SET stripe_customer_id = $2, updated_at = NOW()
+      WHERE id = $1 AND stripe_customer_id IS NULL
+      RETURNING *
+    `, [user.id, customer.id]);
+        userService.invalidateCachedUser(user.id);
+
+        if (result.rows.length === 0) {
+            const current = await userService.findById(user.id);
+            if (!current?.stripeCustomerId) {
+                throw new Error('User not found');
+            }
+            return current.stripeCustomerId;
+        }
+        return customer.id;
+    }
+
+    // A misconfigured production deploy would hand out fake checkout URLs and never bill, so it fails to start instead
+    private createProvider(name: string): BillingProvider {
+        const production = process.env.NODE_ENV === 'production';
+
+        switch (name) {
+            case 'stripe':
+                if (process.env.STRIPE_SECRET_KEY) {
+                    return new StripeBillingProvider(process.env.STRIPE_SECRET_KEY);
+                }
+                if (production) {
+                    throw new Error('STRIPE_SECRET_KEY must be set in production');
+                }
+                console.warn('STRIPE_SECRET_KEY is not set, falling back to the fake billing provider');
+                return new FakeBillingProvider(this.frontendUrl);
+            case 'fake':
+                if (production) {
+                    console.warn('⚠️  BILLING_PROVIDER is fake in production: checkouts are simulated and nothing is billed');
+                }
+                return new FakeBillingProvider(this.frontendUrl);
+            default:
+                if (production) {
+                    throw new Error(`Unknown BILLING_PROVIDER "${name}"`);
+                }
+                console.warn(`Unknown BILLING_PROVIDER "${name}", falling back to fake`);
+                return new FakeBillingProvider(this.frontendUrl);
+        }
+    }
+}
+
+export const billingService = new BillingService();
@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { User } from '../models/User';
+import { CreditBalance, CreditPack, CreditTransaction, CreditTransactionFilters, GrantCreditsData } from '../models/Credit';
+import { Clock, systemClock } from '../utils/clock.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prepaid credit packs. Consumption happens in userService.consumeUsage, in the same statement as the
+// usage itself; this service adds, refunds and expires packs and reads the balance and ledger.
+export class CreditService {
+    private defaultExpiryDays = parseInt(process.env.CREDIT_EXPIRY_DAYS || '365');
+    private clock: Clock = systemClock;
+
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
+
+    async getBalance(user: User): Promise<CreditBalance> {
+        const result = await dbService.query<CreditPack>(`
+      SELECT * FROM credit_packs
+      WHERE user_id = $1 AND remaining > 0 AND expires_at > $2
+      ORDER BY expires_at, created_at
+    `, [user.id, this.clock.now()]);
+
+        return {
+            balance: result.rows.reduce((total, pack) => total + pack.remaining, 0),
+            usedThisPeriod: user.creditUsageCount || 0,
+            nextExpiresAt: result.rows[0]?.expiresAt || null,
+            packs: result.rows
+        };
+    }
+
+    // Add a pack and its ledger entry together
+    async grant(userId: string, data: GrantCreditsData): Promise<CreditPack> {
+        const now = this.clock.now();
+        const expiresAt = data.expiresAt || new Date(now.getTime() + this.defaultExpiryDays * DAY_MS);
+
+        const result = await dbService.query<CreditPack>(`
+      WITH pack AS (
+        INSERT INTO credit_packs (id, user_id, source, quantity, remaining, expires_at, reference, created_by, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $4, $5, $6, $7, $8, $8)
+        RETURNING *
+      ), logged AS (
+        INSERT INTO credit_transactions (id, user_id, pack_id, type, amount, actor_id, reason, created_at)
+        SELECT $9, user_id, id, source, quantity, created_by, $10, created_at FROM pack
+      )
+      SELECT * FROM pack
+    `, [
+            uuidv4(),
+            userId,
+            data.source,
+            data.quantity,
+            expiresAt,
+            data.reference || null,
+            data.actorId || null,
+            now,
+            uuidv4(),
+            data.reason || null
+        ]);
+        return result.rows[0];
+    }
+
+    // Take back whatever is left of a pack (e.g. a purchase that was refunded). Units already used stay used.
+    async refund(userId: string, packId: string, details: { actorId?: string; reason?: string } = {}): Promise<CreditTransaction> {
+        const result = await dbService.query<CreditTransaction>(`
+      WITH pack AS (
+        SELECT id, user_id, remaining
+        FROM credit_packs
+        WHERE id = $1 AND user_id = $2 AND remaining > 0
+        FOR UPDATE
+      ), updated AS (
+        UPDATE credit_packs cp
+        SET remaining = 0, updated_at = $3
+        FROM pack
+        WHERE cp.id = pack.id
+      )
+      INSERT INTO credit_transactions (id, user_id, pack_id, type, amount, actor_id, reason, created_at)
+      SELECT $4, user_id, id, 'refund', -remaining, $5, $6, $3 FROM pack
+      RETURNING *
+    `, [packId, userId, this.clock.now(), uuidv4(), details.actorId || null, details.reason || null]);
+
+        if (result.rows.length === 0) {
+            const existing = await dbService.query('SELECT 1 FROM credit_packs WHERE id = $1 AND user_id = $2', [packId, userId]);
+            throw new Error(existing.rows.length === 0 ? 'Credit pack not found' : 'Credit pack has no credits left');
+        }
+        return result.rows[0];
+    }
+
+    // Zero out packs past their expiry date, writing what was left to the ledger
+    async expireDue(): Promise<number> {
+        const now = this.clock.now();
+        const due = await dbService.query<{ id: string }>(`
+      SELECT id FROM credit_packs
+      WHERE remaining > 0 AND expires_at <= $1
+      ORDER BY expires_at
+      LIMIT 1000
+    `, [now]);
+
+        if (due.rows.length === 0) {
+            return 0;
+        }
+
+        // Checked again under the lock, in case a request spent the last credits in the meantime
+        const result = await dbService.query(`
+      WITH due AS (
+        SELECT * FROM UNNEST($1::varchar[], $2::varchar[]) AS d(pack_id, transaction_id)
+      ), expiring AS (
+        SELECT cp.id, cp.user_id, cp.remaining, due.transaction_id
+        FROM credit_packs cp
+        JOIN due ON due.pack_id = cp.id
+        WHERE cp.remaining > 0 AND cp.expires_at <= $3
+        FOR UPDATE OF cp
+      ), updated AS (
+        UPDATE credit_packs cp
+        SET remaining = 0, updated_at = $3
+        FROM expiring
+        WHERE cp.id = expiring.id
+      )
+      INSERT INTO credit_transactions (id, user_id, pack_id, type, amount, created_at)
+      SELECT transaction_id, user_id, id, 'expiry', -remaining, $3 FROM expiring
+      RETURNING id
+    `, [due.rows.map(pack => pack.id), due.rows.map(() => uuidv4()), now]);
+
+        return result.rows.length;
+    }
+
+    async findTransactions(
+        userId: string,
+        filters: CreditTransactionFilters
+    ): Promise<{ transactions: CreditTransaction[]; total: number }> {
+        const conditions: string[] = ['user_id = $1'];
+        const values: any[] = [userId];
+
+        if (filters.type) {
+            values.push(filters.type);
+            conditions.push(`type = $${values.length}`);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+
+        const countResult = await dbService.query<{ total: string }>(`SELECT COUNT(*) AS total FROM credit_transactions ${where}`, values);
+
+        const result = await dbService.query<CreditTransaction>(`
+      SELECT * FROM credit_transactions
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `, [...values, filters.limit, filters.offset]);
+
+        return {
+            transactions: result.rows,
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+}
+
+export const creditService = new CreditService();
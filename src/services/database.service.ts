@@ -1,8 +1,14 @@
-import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { Pool, PoolClient, QueryResult, QueryResultRow, defaults, types } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+// All TIMESTAMP columns hold UTC. The session time zone, the Dates we send and the Dates we read back
+// are pinned to UTC so period math agrees with NOW() whatever time zone the app or database host uses.
+const TIMESTAMP_WITHOUT_TIME_ZONE_OID = 1114;
+defaults.parseInputDatesAsUTC = true;
+types.setTypeParser(TIMESTAMP_WITHOUT_TIME_ZONE_OID, value => new Date(`${value.replace(' ', 'T')}Z`));
+
 // Utility function to convert snake_case to camelCase
 function snakeToCamel(str: string): string {
     return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
@@ -28,6 +34,7 @@ export class DatabaseService {
             max: 20,
             idleTimeoutMillis: 30000,
             connectionTimeoutMillis: 2000,
+            options: '-c TimeZone=UTC'
         });
 
         this.pool.on('connect', (client: PoolClient) => {
@@ -0,0 +1,231 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { userService } from './user.service';
+import { planService } from './plan.service';
+import { billingService } from './billing.service';
+import { mailService } from './mail.service';
+import { auditService } from './audit.service';
+import { User } from '../models/User';
+import { DunningState, DunningStateConfig, DunningStatus, DunningTransition } from '../models/Dunning';
+import { Clock, systemClock } from '../utils/clock.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Provider subscription statuses and the dunning state they put a user in
+const FAILED_PAYMENT_STATUSES = ['past_due', 'unpaid'];
+const PAID_STATUSES = ['active', 'trialing'];
+const ENDED_STATUSES = ['canceled', 'incomplete_expired'];
+
+const loadStateConfig = (): Record<DunningState, DunningStateConfig> => ({
+    active: { days: null, next: null, limitPercent: 100 },
+    past_due: {
+        days: parseInt(process.env.DUNNING_PAST_DUE_DAYS || '3'),
+        next: 'grace',
+        limitPercent: parseInt(process.env.DUNNING_PAST_DUE_LIMIT_PERCENT || '100')
+    },
+    grace: {
+        days: parseInt(process.env.DUNNING_GRACE_DAYS || '7'),
+        next: 'suspended',
+        limitPercent: parseInt(process.env.DUNNING_GRACE_LIMIT_PERCENT || '50')
+    },
+    suspended: {
+        days: parseInt(process.env.DUNNING_SUSPENDED_DAYS || '14'),
+        next: 'canceled',
+        limitPercent: parseInt(process.env.DUNNING_SUSPENDED_LIMIT_PERCENT || '0')
+    },
+    canceled: { days: null, next: null, limitPercent: 100 }
+});
+
+// Walks users through failed-payment recovery. Provider webhooks start and end dunning; the scheduler moves
+// users on when a state's days run out, stepping the monthly limit down and finally downgrading to free.
+export class DunningService {
+    private states = loadStateConfig();
+    private reminderLeadDays = parseInt(process.env.DUNNING_REMINDER_DAYS_BEFORE || '2');
+    private clock: Clock = systemClock;
+
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
+
+    // React to the subscription status the provider reported (already stored on the user by the webhook)
+    async handleProviderStatus(user: User, providerStatus: string): Promise<User> {
+        let target: DunningState | null = null;
+        let reason = '';
+
+        if (FAILED_PAYMENT_STATUSES.includes(providerStatus) && user.dunningState === 'active') {
+            target = 'past_due';
+            reason = 'payment_failed';
+        } else if (PAID_STATUSES.includes(providerStatus) && user.dunningState !== 'active') {
+            target = 'active';
+            reason = user.dunningState === 'canceled' ? 'subscription_started' : 'payment_succeeded';
+        } else if (ENDED_STATUSES.includes(providerStatus) && user.dunningState !== 'canceled') {
+            target = 'canceled';
+            reason = 'subscription_ended';
+        }
+
+        if (target) {
+            const updatedUser = await this.transition(user, target, reason);
+            if (updatedUser) {
+                return updatedUser;
+            }
+        }
+
+        // The webhook resets the limit to the plan's; keep any step-down of the current state in force
+        return await this.enforceLimit(user);
+    }
+
+    // Move every user whose current state has run out on to the next one
+    async advanceExpired(): Promise<number> {
+        const expiring = (Object.keys(this.states) as DunningState[]).filter(state => this.states[state].next);
+        const result = await dbService.query<User>(`
+      SELECT * FROM users
+      WHERE dunning_state = ANY($1) AND dunning_state_expires_at <= $2
+      ORDER BY dunning_state_expires_at
+    `, [expiring, this.clock.now()]);
+
+        let advancedCount = 0;
+        for (const user of result.rows) {
+            const next = this.states[user.dunningState].next!;
+            try {
+                if (await this.transition(user, next, `${user.dunningState}_expired`)) {
+                    advancedCount++;
+                }
+            } catch (error) {
+                console.error(`❌ Failed to move user ${user.id} from ${user.dunningState} to ${next}:`, error);
+            }
+        }
+        return advancedCount;
+    }
+
+    // One reminder per state, sent a few days before the scheduler moves the user on
+    async sendReminders(): Promise<number> {
+        const now = this.clock.now();
+
+        // Claim the reminders first so two instances can't both send them
+        const result = await dbService.query<User>(`
+      UPDATE users
+      SET dunning_reminder_sent_at = $1
+      WHERE dunning_state IN ('past_due', 'grace', 'suspended')
+      AND dunning_reminder_sent_at IS NULL
+      AND dunning_state_expires_at > $1
+      AND dunning_state_expires_at <= $2
+      RETURNING *
+    `, [now, new Date(now.getTime() + this.reminderLeadDays * DAY_MS)]);
+
+        for (const user of result.rows) {
+            const next = this.states[user.dunningState].next!;
+            await mailService.sendDunningReminderEmail(user.email, user.dunningState, next, new Date(user.dunningStateExpiresAt!))
+                .catch(error => console.error(`❌ Failed to send dunning reminder to user ${user.id}:`, error));
+        }
+        return result.rows.length;
+    }
+
+    async getStatus(user: User, transitionLimit: number = 20): Promise<DunningStatus> {
+        const result = await dbService.query<DunningTransition>(`
+      SELECT * FROM dunning_transitions
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `, [user.id, transitionLimit]);
+
+        const state = user.dunningState || 'active';
+        return {
+            state,
+            since: user.dunningStateChangedAt,
+            nextState: this.states[state].next,
+            nextTransitionAt: user.dunningStateExpiresAt,
+            transitions: result.rows
+        };
+    }
+
+    // The monthly limit a user gets in a dunning state: a share of their plan's (or override's) limit,
+    // but never less than the free plan. Unlimited plans stay unlimited until the share drops to zero.
+    async getMonthlyLimit(user: User, state: DunningState, tier: User['subscriptionTier']): Promise<number> {
+        const base = user.monthlyLimitOverride ?? await planService.getMonthlyLimit(tier);
+        const limitPercent = this.states[state].limitPercent;
+        if (limitPercent >= 100) {
+            return base;
+        }
+
+        const freeLimit = await planService.getMonthlyLimit('free');
+        if (base < 0) {
+            return limitPercent > 0 ? base : freeLimit;
+        }
+        return Math.max(Math.round(base * limitPercent / 100), freeLimit);
+    }
+
+    // Returns null if the user had already left `user.dunningState` (another request moved them first)
+    private async transition(user: User, to: DunningState, reason: string): Promise<User | null> {
+        const now = this.clock.now();
+        const config = this.states[to];
+        const tier = to === 'canceled' ? 'free' : user.subscriptionTier;
+        const monthlyLimit = await this.getMonthlyLimit(user, to, tier);
+        const expiresAt = config.days !== null ? new Date(now.getTime() + config.days * DAY_MS) : null;
+
+        const result = await dbService.query<User>(`
+      WITH updated AS (
+        UPDATE users
+        SET dunning_state = $3,
+            dunning_state_changed_at = $4,
+            dunning_state_expires_at = $5,
+            dunning_reminder_sent_at = NULL,
+            subscription_tier = $6,
+            monthly_limit = $7,
+            updated_at = NOW()
+        WHERE id = $1 AND dunning_state = $2
+        RETURNING *
+      ), logged AS (
+        INSERT INTO dunning_transitions (id, user_id, from_state, to_state, reason, monthly_limit, created_at)
+        SELECT $8, id, $2, $3, $9, $7, $4 FROM updated
+      )
+      SELECT * FROM updated
+    `, [user.id, user.dunningState, to, now, expiresAt, tier, monthlyLimit, uuidv4(), reason]);
+        userService.invalidateCachedUser(user.id);
+
+        const updatedUser = result.rows[0];
+        if (!updatedUser) {
+            return null;
+        }
+
+        console.log(`🔧 User ${user.id} moved from ${user.dunningState} to ${to} (${reason})`);
+
+        await auditService.record({
+            eventType: 'billing.dunning_transition',
+            targetUserId: user.id,
+            before: { dunningState: user.dunningState, subscriptionTier: user.subscriptionTier, monthlyLimit: user.monthlyLimit },
+            after: { dunningState: to, subscriptionTier: tier, monthlyLimit },
+            metadata: { reason }
+        });
+
+        // We gave up on the payment: stop the provider from billing (or retrying) the subscription
+        if (to === 'canceled' && reason !== 'subscription_ended' && user.subscriptionId) {
+            await billingService.cancelSubscription(user.subscriptionId)
+                .catch(error => console.error(`❌ Failed to cancel subscription ${user.subscriptionId} for user ${user.id}:`, error));
+        }
+
+        await mailService.sendDunningStateEmail(user.email, to, {
+            monthlyLimit,
+            nextState: config.next,
+            nextTransitionAt: expiresAt
+        }).catch(error => console.error(`❌ Failed to send dunning email to user ${user.id}:`, error));
+
+        return updatedUser;
+    }
+
+    private async enforceLimit(user: User): Promise<User> {
+        const monthlyLimit = await this.getMonthlyLimit(user, user.dunningState, user.subscriptionTier);
+        if (monthlyLimit === user.monthlyLimit) {
+            return user;
+        }
+
+        const result = await dbService.query<User>(`
+      UPDATE users SET monthly_limit = $3, updated_at = NOW()
+      WHERE id = $1 AND dunning_state = $2
+      RETURNING *
+    `, [user.id, user.dunningState, monthlyLimit]);
+        userService.invalidateCachedUser(user.id);
+        return result.rows[0] || user;
+    }
+}
+
+export const dunningService = new DunningService();
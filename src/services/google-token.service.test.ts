@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { GoogleTokenService, RemoteJwksKeySource, StaticKeySource } from './google-token.service';
+
+const CLIENT_ID = 'client-123.apps.googleusercontent.com';
+const KID = 'test-key';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const otherKeyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] };
+
+const sign = (
+    claims: Record<string, unknown> = {},
+    options: { kid?: string; key?: crypto.KeyObject } = {}
+): string => jwt.sign(
+    {
+        iss: 'https://accounts.google.com',
+        aud: CLIENT_ID,
+        sub: 'google-user-1',
+        email: 'ada@example.com',
+        email_verified: true,
+        name: 'Ada Lovelace',
+        given_name: 'Ada',
+        family_name: 'Lovelace',
+        exp: Math.floor(Date.now() / 1000) + 3600,
+        ...claims
+    },
+    options.key || privateKey,
+    { algorithm: 'RS256', keyid: options.kid || KID }
+);
+
+describe('GoogleTokenService', () => {
+    let service: GoogleTokenService;
+
+    beforeEach(() => {
+        service = new GoogleTokenService();
+        service.setKeySource(new StaticKeySource(jwks));
+        service.setClientId(CLIENT_ID);
+    });
+
+    it('turns a valid credential into a profile', async () => {
+        await expect(service.verifyIdToken(sign())).resolves.toEqual({
+            id: 'google-user-1',
+            email: 'ada@example.com',
+            verified_email: true,
+            name: 'Ada Lovelace',
+            given_name: 'Ada',
+            family_name: 'Lovelace',
+            picture: undefined,
+            locale: 'en'
+        });
+    });
+
+    it('reports an unverified Google email', async () => {
+        const profile = await service.verifyIdToken(sign({ email_verified: false }));
+        expect(profile.verified_email).toBe(false);
+    });
+
+    it.each([
+        ['is not a JWT', () => 'not-a-token', 'GOOGLE_TOKEN_MALFORMED'],
+        ['uses an unknown key', () => sign({}, { kid: 'rotated-away' }), 'GOOGLE_TOKEN_UNKNOWN_KEY'],
+        ['is signed by another key', () => sign({}, { key: otherKeyPair.privateKey }), 'GOOGLE_TOKEN_INVALID_SIGNATURE'],
+        ['has another issuer', () => sign({ iss: 'https://evil.example.com' }), 'GOOGLE_TOKEN_INVALID_ISSUER'],
+        ['was issued for another client', () => sign({ aud: 'other-client' }), 'GOOGLE_TOKEN_INVALID_AUDIENCE'],
+        ['has expired', () => sign({ exp: Math.floor(Date.now() / 1000) - 120 }), 'GOOGLE_TOKEN_EXPIRED'],
+        ['has no email', () => sign({ email: undefined }), 'GOOGLE_TOKEN_MISSING_EMAIL']
+    ])('rejects a credential that %s', async (_, credential, code) => {
+        await expect(service.verifyIdToken(credential())).rejects.toMatchObject({ name: 'GoogleTokenError', code });
+    });
+
+    it('accepts a credential that expired within the clock tolerance', async () => {
+        await expect(service.verifyIdToken(sign({ exp: Math.floor(Date.now() / 1000) - 30 }))).resolves.toBeDefined();
+    });
+
+    it('refuses to verify without a client id', async () => {
+        service.setClientId('');
+        await expect(service.verifyIdToken(sign())).rejects.toThrow('GOOGLE_CLIENT_ID is not configured');
+    });
+});
+
+describe('RemoteJwksKeySource', () => {
+    const fetchMock = jest.fn();
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        fetchMock.mockImplementation(async () => new Response(JSON.stringify(jwks), {
+            headers: { 'cache-control': 'public, max-age=3600' }
+        }));
+        jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('caches the key set', async () => {
+        const source = new RemoteJwksKeySource('https://keys.example.com');
+
+        await expect(source.getKey(KID)).resolves.not.toBeNull();
+        await expect(source.getKey(KID)).resolves.not.toBeNull();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('refetches for unknown kids at most once per interval', async () => {
+        const source = new RemoteJwksKeySource('https://keys.example.com', 60 * 60 * 1000, 60 * 1000);
+        await source.getKey(KID);
+
+        await expect(source.getKey('forged-1')).resolves.toBeNull();
+        await expect(source.getKey('forged-2')).resolves.toBeNull();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+        await expect(source.getKey('forged-3')).resolves.toBeNull();
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+});
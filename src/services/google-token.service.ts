@@ -0,0 +1,189 @@
+import crypto, { KeyObject, JsonWebKey } from 'crypto';
+import fs from 'fs';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { GoogleProfile } from '../models/User';
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com'];
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export type GoogleTokenErrorCode =
+    | 'GOOGLE_TOKEN_MALFORMED'
+    | 'GOOGLE_TOKEN_UNKNOWN_KEY'
+    | 'GOOGLE_TOKEN_INVALID_SIGNATURE'
+    | 'GOOGLE_TOKEN_INVALID_ISSUER'
+    | 'GOOGLE_TOKEN_INVALID_AUDIENCE'
+    | 'GOOGLE_TOKEN_EXPIRED'
+    | 'GOOGLE_TOKEN_MISSING_EMAIL';
+
+// Thrown for any credential that fails verification; the controller maps these to 401s
+export class GoogleTokenError extends Error {
+    constructor(message: string, public code: GoogleTokenErrorCode) {
+        super(message);
+        this.name = 'GoogleTokenError';
+    }
+}
+
+export interface JsonWebKeySet {
+    keys: Array<JsonWebKey & { kid?: string }>;
+}
+
+// Resolves a signing key by its `kid`. Swap in a StaticKeySource to verify offline.
+export interface KeySource {
+    getKey(kid: string): Promise<KeyObject | null>;
+}
+
+const toKeyMap = (jwks: JsonWebKeySet): Map<string, KeyObject> => {
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys) {
+        if (jwk.kid) {
+            keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        }
+    }
+    return keys;
+};
+
+// A fixed key set, e.g. a local JWKS file or keys generated in a test
+export class StaticKeySource implements KeySource {
+    private keys: Map<string, KeyObject>;
+
+    constructor(jwks: JsonWebKeySet) {
+        this.keys = toKeyMap(jwks);
+    }
+
+    async getKey(kid: string): Promise<KeyObject | null> {
+        return this.keys.get(kid) || null;
+    }
+}
+
+// Google's published key set, cached for as long as its Cache-Control header allows
+export class RemoteJwksKeySource implements KeySource {
+    private keys = new Map<string, KeyObject>();
+    private expiresAt = 0;
+    private fetchedAt = 0;
+    private pending: Promise<void> | null = null;
+
+    constructor(
+        private url: string = GOOGLE_JWKS_URL,
+        private defaultTtlMs: number = 60 * 60 * 1000,
+        private minRefetchIntervalMs: number = 60 * 1000
+    ) { }
+
+    async getKey(kid: string): Promise<KeyObject | null> {
+        // Refresh when the cache is stale, or when Google may have rotated in a key we haven't seen. Unknown
+        // kids only refetch once per interval, so forged tokens with random kids can't make us call Google
+        // on every request; within the interval they're treated as a miss.
+        const stale = Date.now() >= this.expiresAt;
+        const mayHaveRotated = !this.keys.has(kid) && Date.now() - this.fetchedAt >= this.minRefetchIntervalMs;
+        if (stale || mayHaveRotated) {
+            await this.refresh();
+        }
+        return this.keys.get(kid) || null;
+    }
+
+    private async refresh(): Promise<void> {
+        // Share one in-flight request between concurrent callers
+        if (!this.pending) {
+            this.pending = this.fetchKeys().finally(() => {
+                this.pending = null;
+            });
+        }
+        await this.pending;
+    }
+
+    private async fetchKeys(): Promise<void> {
+        // Counted from the attempt, so a failing endpoint is throttled too
+        this.fetchedAt = Date.now();
+        const response = await fetch(this.url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch Google signing keys: ${response.status}`);
+        }
+
+        const jwks = await response.json() as JsonWebKeySet;
+        const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+
+        this.keys = toKeyMap(jwks);
+        this.expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1]) * 1000 : this.defaultTtlMs);
+    }
+}
+
+export class GoogleTokenService {
+    private keySource: KeySource;
+    private clientId: string;
+
+    constructor() {
+        // GOOGLE_JWKS_FILE points at a local key set for running without network access
+        this.keySource = process.env.GOOGLE_JWKS_FILE
+            ? new StaticKeySource(JSON.parse(fs.readFileSync(process.env.GOOGLE_JWKS_FILE, 'utf8')))
+            : new RemoteJwksKeySource();
+        this.clientId = process.env.GOOGLE_CLIENT_ID || '';
+    }
+
+    setKeySource(keySource: KeySource): void {
+        this.keySource = keySource;
+    }
+
+    setClientId(clientId: string): void {
+        this.clientId = clientId;
+    }
+
+    // Verify a Google Identity Services ID token and turn its claims into a GoogleProfile
+    async verifyIdToken(credential: string): Promise<GoogleProfile> {
+        if (!this.clientId) {
+            throw new Error('GOOGLE_CLIENT_ID is not configured');
+        }
+
+        const decoded = jwt.decode(credential, { complete: true });
+        if (!decoded || typeof decoded.payload === 'string') {
+            throw new GoogleTokenError('Google credential is not a valid JWT', 'GOOGLE_TOKEN_MALFORMED');
+        }
+
+        if (decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+            throw new GoogleTokenError('Google credential has an unexpected header', 'GOOGLE_TOKEN_MALFORMED');
+        }
+
+        const key = await this.keySource.getKey(decoded.header.kid);
+        if (!key) {
+            throw new GoogleTokenError('Google credential was signed with an unknown key', 'GOOGLE_TOKEN_UNKNOWN_KEY');
+        }
+
+        let payload: JwtPayload;
+        try {
+            // Claims are checked below so each failure gets its own error code
+            payload = jwt.verify(credential, key, { algorithms: ['RS256'], ignoreExpiration: true }) as JwtPayload;
+        } catch (error) {
+            throw new GoogleTokenError('Google credential signature is invalid', 'GOOGLE_TOKEN_INVALID_SIGNATURE');
+        }
+
+        if (!payload.iss || !GOOGLE_ISSUERS.includes(payload.iss)) {
+            throw new GoogleTokenError('Google credential has an invalid issuer', 'GOOGLE_TOKEN_INVALID_ISSUER');
+        }
+
+        const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (!audiences.includes(this.clientId)) {
+            throw new GoogleTokenError('Google credential was issued for a different client', 'GOOGLE_TOKEN_INVALID_AUDIENCE');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE_SECONDS < now) {
+            throw new GoogleTokenError('Google credential has expired', 'GOOGLE_TOKEN_EXPIRED');
+        }
+
+        if (!payload.sub || !payload.email) {
+            throw new GoogleTokenError('Google credential does not include an email address', 'GOOGLE_TOKEN_MISSING_EMAIL');
+        }
+
+        return {
+            id: payload.sub,
+            email: payload.email,
+            verified_email: payload.email_verified === true,
+            name: payload.name || '',
+            given_name: payload.given_name || payload.name || '',
+            family_name: payload.family_name || '',
+            picture: payload.picture,
+            locale: payload.locale || 'en'
+        };
+    }
+}
+
+export const googleTokenService = new GoogleTokenService();
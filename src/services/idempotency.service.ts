@@ -0,0 +1,161 @@
+import { dbService } from './database.service';
+import { sharedStoreService } from './shared-store.service';
+import { IdempotencyBeginResult, IdempotencyRecord } from '../models/IdempotencyKey';
+
+// A key stuck in progress this long (the instance died mid-request) is freed, so the client's retry can run
+const STALE_IN_PROGRESS_MINUTES = 5;
+
+// Where idempotency records live. Swap implementations with idempotencyService.setStore().
+export interface IdempotencyStore {
+    // Insert an in-progress record unless a live one already exists; returns the existing record if so
+    claim(scope: string, key: string, requestHash: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+    complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+    release(scope: string, key: string): Promise<void>;
+    deleteExpired(): Promise<number>;
+}
+
+// Shared between instances; the default outside tests
+export class PostgresIdempotencyStore implements IdempotencyStore {
+    async claim(scope: string, key: string, requestHash: string, expiresAt: Date): Promise<IdempotencyRecord | null> {
+        // An expired record no longer protects anything, and an abandoned one never will, so let the key be used afresh
+        await dbService.query(`
+      DELETE FROM idempotency_keys
+      WHERE scope = $1 AND key = $2
+      AND (
+        expires_at <= NOW()
+        OR (status = 'in_progress' AND created_at < NOW() - ($3 * INTERVAL '1 minute'))
+      )
+    `, [scope, key, STALE_IN_PROGRESS_MINUTES]);
+
+        const insert = await dbService.query<IdempotencyRecord>(`
+      INSERT INTO idempotency_keys (scope, key, request_hash, status, expires_at)
+      VALUES ($1, $2, $3, 'in_progress', $4)
+      ON CONFLICT (scope, key) DO NOTHING
+      RETURNING *
+    `, [scope, key, requestHash, expiresAt]);
+
+        if (insert.rows.length > 0) {
+            return null;
+        }
+
+        const existing = await dbService.query<IdempotencyRecord>(
+            'SELECT * FROM idempotency_keys WHERE scope = $1 AND key = $2',
+            [scope, key]
+        );
+        return existing.rows[0] || null;
+    }
+
+    async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+        await dbService.query(`
+      UPDATE idempotency_keys
+      SET status = 'completed', response_status = $3, response_body = $4
+      WHERE scope = $1 AND key = $2
+    `, [scope, key, responseStatus, JSON.stringify(responseBody ?? null)]);
+    }
+
+    async release(scope: string, key: string): Promise<void> {
+        await dbService.query('DELETE FROM idempotency_keys WHERE scope = $1 AND key = $2', [scope, key]);
+    }
+
+    async deleteExpired(): Promise<number> {
+        const result = await dbService.query('DELETE FROM idempotency_keys WHERE expires_at <= NOW()');
+        return result.rowCount || 0;
+    }
+}
+
+// Backed by the shared store (Redis when configured), so keys are seen by every instance
+export class SharedIdempotencyStore implements IdempotencyStore {
+    async claim(scope: string, key: string, requestHash: string, expiresAt: Date): Promise<IdempotencyRecord | null> {
+        const record: IdempotencyRecord = { scope, key, requestHash, status: 'in_progress', createdAt: new Date(), expiresAt };
+        // In-progress entries only live until they'd count as abandoned; complete() stores the result for the full TTL
+        const ttlMs = Math.max(Math.min(expiresAt.getTime() - Date.now(), STALE_IN_PROGRESS_MINUTES * 60 * 1000), 1);
+
+        if (await sharedStoreService.setIfAbsent(this.storeKey(scope, key), JSON.stringify(record), ttlMs)) {
+            return null;
+        }
+        return await this.find(scope, key);
+    }
+
+    async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+        const record = await this.find(scope, key);
+        if (!record) {
+            return;
+        }
+
+        record.status = 'completed';
+        record.responseStatus = responseStatus;
+        record.responseBody = responseBody;
+
+        const ttlMs = Math.max(record.expiresAt.getTime() - Date.now(), 1);
+        await sharedStoreService.set(this.storeKey(scope, key), JSON.stringify(record), ttlMs);
+    }
+
+    async release(scope: string, key: string): Promise<void> {
+        await sharedStoreService.delete(this.storeKey(scope, key));
+    }
+
+    // Entries expire on their own TTL
+    async deleteExpired(): Promise<number> {
+        return 0;
+    }
+
+    private async find(scope: string, key: string): Promise<IdempotencyRecord | null> {
+        const value = await sharedStoreService.get(this.storeKey(scope, key));
+        if (!value) {
+            return null;
+        }
+
+        const record = JSON.parse(value);
+        return { ...record, createdAt: new Date(record.createdAt), expiresAt: new Date(record.expiresAt) };
+    }
+
+    private storeKey(scope: string, key: string): string {
+        return `idempotency:${scope}:${key}`;
+    }
+}
+
+export class IdempotencyService {
+    private store: IdempotencyStore;
+    private ttlMs: number;
+
+    constructor() {
+        const storeType = process.env.IDEMPOTENCY_STORE
+            || (process.env.REDIS_URL || process.env.NODE_ENV === 'test' ? 'shared' : 'postgres');
+        this.store = storeType === 'shared' ? new SharedIdempotencyStore() : new PostgresIdempotencyStore();
+        this.ttlMs = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24') * 60 * 60 * 1000;
+    }
+
+    setStore(store: IdempotencyStore): void {
+        this.store = store;
+    }
+
+    async begin(scope: string, key: string, requestHash: string): Promise<IdempotencyBeginResult> {
+        const existing = await this.store.claim(scope, key, requestHash, new Date(Date.now() + this.ttlMs));
+
+        if (!existing) {
+            return { state: 'new' };
+        }
+        if (existing.requestHash !== requestHash) {
+            return { state: 'mismatch' };
+        }
+        if (existing.status !== 'completed') {
+            return { state: 'in_progress' };
+        }
+        return { state: 'replay', responseStatus: existing.responseStatus!, responseBody: existing.responseBody };
+    }
+
+    async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+        await this.store.complete(scope, key, responseStatus, responseBody);
+    }
+
+    // Forget a key whose request failed unexpectedly, so the client can retry it
+    async release(scope: string, key: string): Promise<void> {
+        await this.store.release(scope, key);
+    }
+
+    async deleteExpired(): Promise<number> {
+        return await this.store.deleteExpired();
+    }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,247 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { DunningState } from '../models/Dunning';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+// A mailer delivers a single message. Swap implementations with mailService.setMailer().
+export interface Mailer {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Delivers through a real SMTP server
+export class SmtpMailer implements Mailer {
+    private transporter: Transporter;
+
+    constructor() {
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || '587'),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER ? {
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASS
+            } : undefined
+        });
+    }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
+
+// Writes each message as an .eml file, for local runs without an SMTP server
+export class FileMailer implements Mailer {
+    private transporter: Transporter;
+
+    constructor(private outboxDir: string) {
+        this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        const info = await this.transporter.sendMail(message);
+        await fs.mkdir(this.outboxDir, { recursive: true });
+
+        const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.eml`;
+        const filePath = path.join(this.outboxDir, fileName);
+        await fs.writeFile(filePath, info.message as Buffer);
+
+        console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+    }
+}
+
+// Logs each message to stdout
+export class ConsoleMailer implements Mailer {
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        console.log('📧 Outgoing mail:', {
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text
+        });
+    }
+}
+
+export class MailService {
+    private mailer: Mailer;
+    private from: string;
+    private frontendUrl: string;
+
+    constructor() {
+        this.from = process.env.MAIL_FROM || 'PayLens <no-reply@paylens.local>';
+        this.frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+        this.mailer = this.createMailer(process.env.MAIL_TRANSPORT || 'console');
+    }
+
+    setMailer(mailer: Mailer): void {
+        this.mailer = mailer;
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.mailer.send({ from: this.from, ...message });
+    }
+
+    async sendPasswordResetEmail(email: string, token: string, expiresInMinutes: number): Promise<void> {
+        const resetUrl = `${this.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+        await this.send({
+            to: email,
+            subject: 'Reset your PayLens password',
+            text: [
+                'We received a request to reset the password for your PayLens account.',
+                '',
+                `Use the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.`,
+                '',
+                resetUrl,
+                '',
+                'If you did not request a password reset, you can ignore this email.'
+            ].join('\n')
+        });
+    }
+
+    async sendEmailVerificationEmail(email: string, token: string, expiresInHours: number): Promise<void> {
+        const verifyUrl = `${this.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+        await this.send({
+            to: email,
+            subject: 'Verify your PayLens email address',
+            text: [
+                'Welcome to PayLens! Please confirm your email address using the link below.',
+                '',
+                `The link expires in ${expiresInHours} hours.`,
+                '',
+                verifyUrl,
+                '',
+                'If you did not create a PayLens account, you can ignore this email.'
+            ].join('\n')
+        });
+    }
+
+    // Sent whether or not the address has an account yet, so inviting doesn't reveal which ones do
+    async sendOrganizationInvitationEmail(
+        email: string,
+        details: { organizationName: string; inviterName: string; expiresAt: Date }
+    ): Promise<void> {
+        const invitationsUrl = `${this.frontendUrl}/organizations/invitations`;
+
+        await this.send({
+            to: email,
+            subject: `You've been invited to join ${details.organizationName} on PayLens`,
+            text: [
+                `${details.inviterName} invited you to join the organization "${details.organizationName}" on PayLens.`,
+                '',
+                `Sign in (or create an account) with this email address to accept or decline. The invitation expires on ${details.expiresAt.toUTCString()}.`,
+                '',
+                invitationsUrl,
+                '',
+                'If you were not expecting this invitation, you can ignore this email.'
+            ].join('\n')
+        });
+    }
+
+    // Sent whenever a failed payment moves the account to a new dunning state
+    async sendDunningStateEmail(
+        email: string,
+        state: DunningState,
+        details: { monthlyLimit: number; nextState: DunningState | null; nextTransitionAt: Date | null }
+    ): Promise<void> {
+        const billingUrl = `${this.frontendUrl}/billing`;
+        const limit = details.monthlyLimit < 0 ? 'unlimited' : `${details.monthlyLimit} per billing period`;
+        const deadline = details.nextTransitionAt ? details.nextTransitionAt.toUTCString() : null;
+
+        const content: Record<DunningState, { subject: string; body: string[] }> = {
+            active: {
+                subject: 'Your PayLens payment went through',
+                body: ['Thanks, your payment was successful and your plan is fully restored.', `Your usage limit is ${limit}.`]
+            },
+            past_due: {
+                subject: 'Your PayLens payment failed',
+                body: [
+                    'We could not collect the latest payment for your PayLens subscription.',
+                    `Please update your payment method${deadline ? ` before ${deadline}` : ''} to keep your current plan.`
+                ]
+            },
+            grace: {
+                subject: 'Your PayLens usage limit has been reduced',
+                body: [
+                    'Your PayLens subscription is still unpaid, so your usage limit has been reduced.',
+                    `Your usage limit is now ${limit}.${deadline ? ` The account will be suspended on ${deadline} if payment is not received.` : ''}`
+                ]
+            },
+            suspended: {
+                subject: 'Your PayLens subscription has been suspended',
+                body: [
+                    'Your PayLens subscription has been suspended because payment was not received.',
+                    `Your usage limit is now ${limit}.${deadline ? ` The subscription will be canceled on ${deadline}.` : ''}`
+                ]
+            },
+            canceled: {
+                subject: 'Your PayLens subscription has been canceled',
+                body: [
+                    'Your PayLens subscription has been canceled and your account has moved to the Free plan.',
+                    'You can upgrade again at any time.'
+                ]
+            }
+        };
+
+        await this.send({
+            to: email,
+            subject: content[state].subject,
+            text: [...content[state].body, '', billingUrl].join('\n')
+        });
+    }
+
+    async sendDunningReminderEmail(email: string, state: DunningState, nextState: DunningState, deadline: Date): Promise<void> {
+        const billingUrl = `${this.frontendUrl}/billing`;
+        const consequence: Partial<Record<DunningState, string>> = {
+            grace: 'your usage limit will be reduced',
+            suspended: 'your subscription will be suspended',
+            canceled: 'your subscription will be canceled and your account moved to the Free plan'
+        };
+
+        await this.send({
+            to: email,
+            subject: 'Reminder: your PayLens payment is overdue',
+            text: [
+                `The payment for your PayLens subscription is still outstanding (status: ${state.replace('_', ' ')}).`,
+                '',
+                `If it is not received by ${deadline.toUTCString()}, ${consequence[nextState] || 'your plan will change'}.`,
+                '',
+                'Update your payment method here:',
+                billingUrl
+            ].join('\n')
+        });
+    }
+
+    // The console and file mailers write reset and verification links in plain text, so a production deploy
+    // without real mail would leak them into logs; it fails to start instead
+    private createMailer(transport: string): Mailer {
+        if (process.env.NODE_ENV === 'production') {
+            if (transport !== 'smtp') {
+                throw new Error(`MAIL_TRANSPORT must be smtp in production (got "${transport}")`);
+            }
+            if (!process.env.SMTP_HOST) {
+                throw new Error('SMTP_HOST must be set in production');
+            }
+        }
+
+        switch (transport) {
+            case 'smtp':
+                return new SmtpMailer();
+            case 'file':
+                return new FileMailer(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+            case 'console':
+                return new ConsoleMailer();
+            default:
+                throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+        }
+    }
+}
+
+export const mailService = new MailService();
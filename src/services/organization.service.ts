@@ -0,0 +1,524 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { DEFAULT_USAGE_FEATURE } from './user.service';
+import { planService } from './plan.service';
+import { Plan, PlanId } from '../models/Plan';
+import { UsageLineItem } from '../models/UsageEvent';
+import {
+    Membership,
+    Organization,
+    OrganizationInvitation,
+    OrganizationMember,
+    OrganizationRole,
+    OrganizationUsage,
+    OrganizationUsageResult,
+    OrganizationWithRole,
+    ReceivedInvitation,
+    UpdateMembershipData
+} from '../models/Organization';
+import { addBillingCycles, getBillingPeriod } from '../utils/billing-period.util';
+import { Clock, systemClock } from '../utils/clock.util';
+
+// Organizations and their members. Members' usage comes out of the organization's pool (its own plan and
+// monthly limit), optionally capped per member, and every unit is attributed to the member who used it.
+export class OrganizationService {
+    // Each free organization is another free-plan pool, so a user may only own a few of them
+    private maxFreeOrganizations = parseInt(process.env.MAX_FREE_ORGANIZATIONS_PER_USER || '1');
+    private invitationExpiresDays = parseInt(process.env.ORGANIZATION_INVITATION_EXPIRES_DAYS || '7');
+    private clock: Clock = systemClock;
+
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
+
+    // New organizations start on the free plan, with the creator as owner. Users who already own
+    // maxFreeOrganizations free ones have to get one upgraded first.
+    async create(userId: string, name: string): Promise<OrganizationWithRole> {
+        const now = this.clock.now();
+        const monthlyLimit = await planService.getMonthlyLimit('free');
+        const organizationId = uuidv4();
+
+        await dbService.transaction(async client => {
+            // Locking the user serializes their creates, so concurrent requests can't all pass the count
+            await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+
+            const owned = await client.query<{ count: number }>(`
+        SELECT COUNT(*)::int AS count
+        FROM memberships m
+        JOIN organizations o ON o.id = m.organization_id
+        WHERE m.user_id = $1 AND m.role = 'owner' AND o.subscription_tier = 'free'
+      `, [userId]);
+            if (owned.rows[0].count >= this.maxFreeOrganizations) {
+                throw new Error('Free organization limit reached');
+            }
+
+            await client.query(`
+        WITH organization AS (
+          INSERT INTO organizations (
+            id, name, subscription_tier, monthly_limit, billing_anchor, billing_period_start, current_period_end,
+            created_by, created_at, updated_at
+          )
+          VALUES ($1, $2, 'free', $3, $4, $4, $5, $6, $4, $4)
+          RETURNING *
+        )
+        INSERT INTO memberships (id, organization_id, user_id, role, created_at, updated_at)
+        SELECT $7, id, created_by, 'owner', created_at, created_at FROM organization
+      `, [organizationId, name, monthlyLimit, now, addBillingCycles(now, 1, 'monthly'), userId, uuidv4()]);
+        });
+
+        const organizations = await this.listForUser(userId);
+        return organizations.find(organization => organization.id === organizationId)!;
+    }
+
+    async findById(id: string): Promise<Organization | null> {
+        const result = await dbService.query<Organization>('SELECT * FROM organizations WHERE id = $1', [id]);
+        return result.rows[0] || null;
+    }
+
+    async listForUser(userId: string): Promise<OrganizationWithRole[]> {
+        const result = await dbService.query<OrganizationWithRole>(`
+      SELECT o.*, m.role
+      FROM organizations o
+      JOIN memberships m ON m.organization_id = o.id
+      WHERE m.user_id = $1
+      ORDER BY o.name, o.created_at
+    `, [userId]);
+        return result.rows;
+    }
+
+    async search(filters: { search?: string; limit: number; offset: number }): Promise<{
+        organizations: Array<Organization & { memberCount: number }>;
+        total: number;
+    }> {
+        const values: any[] = [];
+        let where = '';
+        if (filters.search) {
+            values.push(`%${filters.search}%`);
+            where = `WHERE o.name ILIKE $1`;
+        }
+
+        const countResult = await dbService.query<{ total: string }>(`SELECT COUNT(*) AS total FROM organizations o ${where}`, values);
+
+        const result = await dbService.query<Organization & { memberCount: number }>(`
+      SELECT o.*, (SELECT COUNT(*)::int FROM memberships m WHERE m.organization_id = o.id) AS member_count
+      FROM organizations o
+      ${where}
+      ORDER BY o.created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `, [...values, filters.limit, filters.offset]);
+
+        return {
+            organizations: result.rows,
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+
+    async rename(id: string, name: string): Promise<Organization | null> {
+        const result = await dbService.query<Organization>(`
+      UPDATE organizations SET name = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, name]);
+        return result.rows[0] || null;
+    }
+
+    // Admin: change the organization's plan and/or pool size. Like users, an explicit limit is kept as an
+    // override, and changing tier without one goes back to the plan's limit.
+    async updateSubscription(
+        id: string,
+        data: { subscriptionTier?: PlanId; monthlyLimit?: number }
+    ): Promise<Organization | null> {
+        const existing = await this.findById(id);
+        if (!existing) {
+            return null;
+        }
+
+        const subscriptionTier = data.subscriptionTier || existing.subscriptionTier;
+        let monthlyLimitOverride = existing.monthlyLimitOverride ?? null;
+        if (data.monthlyLimit !== undefined) {
+            monthlyLimitOverride = data.monthlyLimit;
+        } else if (data.subscriptionTier !== undefined && data.subscriptionTier !== existing.subscriptionTier) {
+            monthlyLimitOverride = null;
+        }
+        const monthlyLimit = monthlyLimitOverride ?? await planService.getMonthlyLimit(subscriptionTier);
+
+        const result = await dbService.query<Organization>(`
+      UPDATE organizations
+      SET subscription_tier = $2, monthly_limit = $3, monthly_limit_override = $4, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, subscriptionTier, monthlyLimit, monthlyLimitOverride]);
+        return result.rows[0] || null;
+    }
+
+    // Move organizations on the plan (without an override) to its new limit; returns how many changed
+    async syncMonthlyLimits(plan: Plan): Promise<number> {
+        const result = await dbService.query(`
+      UPDATE organizations
+      SET monthly_limit = $2, updated_at = NOW()
+      WHERE subscription_tier = $1
+      AND monthly_limit_override IS NULL
+      AND monthly_limit <> $2
+    `, [plan.id, plan.monthlyLimit]);
+        return result.rowCount || 0;
+    }
+
+    async getMembership(organizationId: string, userId: string): Promise<Membership | null> {
+        const result = await dbService.query<Membership>(
+            'SELECT * FROM memberships WHERE organization_id = $1 AND user_id = $2',
+            [organizationId, userId]
+        );
+        return result.rows[0] || null;
+    }
+
+    async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+        const result = await dbService.query<OrganizationMember>(`
+      SELECT m.*, u.email, u.first_name, u.last_name
+      FROM memberships m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = $1
+      ORDER BY m.created_at
+    `, [organizationId]);
+        return result.rows;
+    }
+
+    // Invite an email address. Inviting it again replaces the pending invitation (and restarts its expiry).
+    // Whether the address has an account makes no difference here, so callers can't use this to find out.
+    async invite(
+        organizationId: string,
+        email: string,
+        data: { role: OrganizationRole; monthlyLimit?: number | null; invitedBy: string }
+    ): Promise<OrganizationInvitation> {
+        const existing = await dbService.query(`
+      SELECT 1 FROM memberships m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = $1 AND u.email = $2
+    `, [organizationId, email]);
+        if (existing.rows.length > 0) {
+            throw new Error('User is already a member');
+        }
+
+        const now = this.clock.now();
+        const expiresAt = new Date(now.getTime() + this.invitationExpiresDays * 24 * 60 * 60 * 1000);
+
+        const result = await dbService.query<OrganizationInvitation>(`
+      INSERT INTO organization_invitations (id, organization_id, email, role, monthly_limit, invited_by, expires_at, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)
+      ON CONFLICT (organization_id, email) DO UPDATE
+      SET role = EXCLUDED.role,
+          monthly_limit = EXCLUDED.monthly_limit,
+          invited_by = EXCLUDED.invited_by,
+          expires_at = EXCLUDED.expires_at,
+          updated_at = EXCLUDED.updated_at
+      RETURNING *
+    `, [uuidv4(), organizationId, email, data.role, data.monthlyLimit ?? null, data.invitedBy, expiresAt, now]);
+        return result.rows[0];
+    }
+
+    async listInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+        const result = await dbService.query<OrganizationInvitation>(`
+      SELECT * FROM organization_invitations
+      WHERE organization_id = $1 AND expires_at > $2
+      ORDER BY created_at
+    `, [organizationId, this.clock.now()]);
+        return result.rows;
+    }
+
+    async revokeInvitation(organizationId: string, invitationId: string): Promise<OrganizationInvitation> {
+        const result = await dbService.query<OrganizationInvitation>(
+            'DELETE FROM organization_invitations WHERE id = $1 AND organization_id = $2 RETURNING *',
+            [invitationId, organizationId]
+        );
+        if (result.rows.length === 0) {
+            throw new Error('Invitation not found');
+        }
+        return result.rows[0];
+    }
+
+    // Pending invitations addressed to the user's email
+    async listReceivedInvitations(email: string): Promise<ReceivedInvitation[]> {
+        const result = await dbService.query<ReceivedInvitation>(`
+      SELECT i.*, o.name AS organization_name
+      FROM organization_invitations i
+      JOIN organizations o ON o.id = i.organization_id
+      WHERE i.email = $1 AND i.expires_at > $2
+      ORDER BY i.created_at DESC
+    `, [email, this.clock.now()]);
+        return result.rows;
+    }
+
+    // Turn the invitation into a membership, in one statement so it can only be used once
+    async acceptInvitation(invitationId: string, user: { id: string; email: string }): Promise<{
+        member: Membership;
+        invitation: OrganizationInvitation;
+    }> {
+        const invitation = await this.findReceivedInvitation(invitationId, user.email);
+        if (await this.getMembership(invitation.organizationId, user.id)) {
+            throw new Error('User is already a member');
+        }
+
+        const result = await dbService.query<Membership>(`
+      WITH invitation AS (
+        DELETE FROM organization_invitations
+        WHERE id = $1 AND email = $2 AND expires_at > $3
+        RETURNING *
+      )
+      INSERT INTO memberships (id, organization_id, user_id, role, monthly_limit)
+      SELECT $4, organization_id, $5, role, monthly_limit FROM invitation
+      ON CONFLICT (organization_id, user_id) DO NOTHING
+      RETURNING *
+    `, [invitationId, user.email, this.clock.now(), uuidv4(), user.id]);
+
+        if (result.rows.length === 0) {
+            throw new Error('Invitation not found');
+        }
+        return { member: result.rows[0], invitation };
+    }
+
+    async declineInvitation(invitationId: string, email: string): Promise<OrganizationInvitation> {
+        const result = await dbService.query<OrganizationInvitation>(
+            'DELETE FROM organization_invitations WHERE id = $1 AND email = $2 RETURNING *',
+            [invitationId, email]
+        );
+        if (result.rows.length === 0) {
+            throw new Error('Invitation not found');
+        }
+        return result.rows[0];
+    }
+
+    // Another account's invitation looks the same as one that doesn't exist
+    private async findReceivedInvitation(invitationId: string, email: string): Promise<OrganizationInvitation> {
+        const result = await dbService.query<OrganizationInvitation>(
+            'SELECT * FROM organization_invitations WHERE id = $1 AND email = $2 AND expires_at > $3',
+            [invitationId, email, this.clock.now()]
+        );
+        if (result.rows.length === 0) {
+            throw new Error('Invitation not found');
+        }
+        return result.rows[0];
+    }
+
+    // The last owner can't be demoted or removed, so an organization always has someone who can manage it
+    async updateMember(organizationId: string, userId: string, data: UpdateMembershipData): Promise<Membership> {
+        const result = await dbService.query<Membership>(`
+      UPDATE memberships m
+      SET role = COALESCE($3, m.role),
+          monthly_limit = CASE WHEN $4 THEN $5::integer ELSE m.monthly_limit END,
+          updated_at = NOW()
+      WHERE m.organization_id = $1 AND m.user_id = $2
+      AND (
+        m.role <> 'owner'
+        OR COALESCE($3, m.role) = 'owner'
+        OR EXISTS (
+          SELECT 1 FROM memberships other
+          WHERE other.organization_id = $1 AND other.role = 'owner' AND other.user_id <> $2
+        )
+      )
+      RETURNING *
+    `, [organizationId, userId, data.role || null, data.monthlyLimit !== undefined, data.monthlyLimit ?? null]);
+
+        if (result.rows.length === 0) {
+            throw new Error(await this.getMembership(organizationId, userId) ? 'Organization must keep an owner' : 'Member not found');
+        }
+        return result.rows[0];
+    }
+
+    async removeMember(organizationId: string, userId: string): Promise<Membership> {
+        const result = await dbService.query<Membership>(`
+      DELETE FROM memberships m
+      WHERE m.organization_id = $1 AND m.user_id = $2
+      AND (
+        m.role <> 'owner'
+        OR EXISTS (
+          SELECT 1 FROM memberships other
+          WHERE other.organization_id = $1 AND other.role = 'owner' AND other.user_id <> $2
+        )
+      )
+      RETURNING *
+    `, [organizationId, userId]);
+
+        if (result.rows.length === 0) {
+            throw new Error(await this.getMembership(organizationId, userId) ? 'Organization must keep an owner' : 'Member not found');
+        }
+        return result.rows[0];
+    }
+
+    // Consume from the organization's pool on behalf of a member. All-or-nothing, like userService.consumeUsage:
+    // the pool and the member's sub-cap are both checked under row locks, and the ledger entries are written
+    // in the same statement, attributed to the member.
+    async consumeUsage(
+        organizationId: string,
+        userId: string,
+        items: UsageLineItem[],
+        requestId?: string
+    ): Promise<OrganizationUsageResult> {
+        let organization = await this.findById(organizationId);
+        if (!organization) {
+            return { organization: null, canIncrement: false, error: 'Organization not found' };
+        }
+
+        let wasReset = false;
+        if (new Date(organization.currentPeriodEnd) <= this.clock.now()) {
+            wasReset = await this.resetDueUsage(organizationId) > 0;
+        }
+
+        const quantity = items.reduce((total, item) => total + item.quantity, 0);
+
+        const result = await dbService.query<Organization & { memberUsageCount: number; memberMonthlyLimit: number | null }>(`
+      WITH org AS (
+        SELECT id, usage_count, monthly_limit
+        FROM organizations
+        WHERE id = $1
+        FOR UPDATE
+      ), member AS (
+        SELECT id, usage_count, monthly_limit
+        FROM memberships
+        WHERE organization_id = $1 AND user_id = $2
+        FOR UPDATE
+      ), updated AS (
+        UPDATE organizations o
+        SET usage_count = o.usage_count + $3, updated_at = NOW()
+        FROM org, member
+        WHERE o.id = org.id
+        AND (org.monthly_limit < 0 OR org.usage_count + $3 <= org.monthly_limit)
+        AND (member.monthly_limit IS NULL OR member.usage_count + $3 <= member.monthly_limit)
+        RETURNING o.*
+      ), updated_member AS (
+        UPDATE memberships m
+        SET usage_count = m.usage_count + $3, updated_at = NOW()
+        FROM member, updated
+        WHERE m.id = member.id
+        RETURNING m.usage_count, m.monthly_limit
+      ), event AS (
+        INSERT INTO usage_events (id, user_id, organization_id, feature, quantity, request_id, metadata, billing_period_start)
+        SELECT item.id, $2, updated.id, item.feature, item.quantity, $4, item.metadata, updated.billing_period_start
+        FROM updated, UNNEST($5::varchar[], $6::varchar[], $7::integer[], $8::jsonb[]) AS item(id, feature, quantity, metadata)
+      )
+      SELECT updated.*, updated_member.usage_count AS member_usage_count, updated_member.monthly_limit AS member_monthly_limit
+      FROM updated, updated_member
+    `, [
+            organizationId,
+            userId,
+            quantity,
+            requestId || null,
+            items.map(() => uuidv4()),
+            items.map(item => item.feature || DEFAULT_USAGE_FEATURE),
+            items.map(item => item.quantity),
+            items.map(item => item.metadata ? JSON.stringify(item.metadata) : null)
+        ]);
+
+        if (result.rows.length === 0) {
+            const membership = await this.getMembership(organizationId, userId);
+            organization = await this.findById(organizationId);
+            if (!membership || !organization) {
+                return { organization: null, canIncrement: false, error: 'Organization not found' };
+            }
+
+            const memberCapReached = membership.monthlyLimit != null && membership.usageCount + quantity > membership.monthlyLimit;
+            return {
+                organization,
+                member: { usageCount: membership.usageCount, monthlyLimit: membership.monthlyLimit ?? null },
+                canIncrement: false,
+                error: memberCapReached
+                    ? `Member usage limit exceeded. Current: ${membership.usageCount}, Limit: ${membership.monthlyLimit}`
+                    : `Organization usage limit exceeded. Current: ${organization.usageCount}, Limit: ${organization.monthlyLimit}`,
+                wasReset
+            };
+        }
+
+        const { memberUsageCount, memberMonthlyLimit, ...updatedOrganization } = result.rows[0];
+        return {
+            organization: updatedOrganization,
+            member: { usageCount: memberUsageCount, monthlyLimit: memberMonthlyLimit },
+            canIncrement: true,
+            wasReset
+        };
+    }
+
+    // The pool this period, with each member's share and a per-feature breakdown
+    async getUsage(organization: Organization): Promise<OrganizationUsage> {
+        const [members, features] = await Promise.all([
+            this.listMembers(organization.id),
+            dbService.query<{ feature: string; quantity: number }>(`
+        SELECT feature, SUM(quantity)::int AS quantity
+        FROM usage_events
+        WHERE organization_id = $1 AND billing_period_start = $2
+        GROUP BY feature
+        ORDER BY quantity DESC
+      `, [organization.id, organization.billingPeriodStart])
+        ]);
+
+        return {
+            usageCount: organization.usageCount,
+            monthlyLimit: organization.monthlyLimit,
+            available: organization.monthlyLimit >= 0 ? Math.max(organization.monthlyLimit - organization.usageCount, 0) : null,
+            currentPeriodStart: organization.billingPeriodStart,
+            currentPeriodEnd: organization.currentPeriodEnd,
+            members: members.map(member => ({
+                userId: member.userId,
+                email: member.email,
+                firstName: member.firstName,
+                lastName: member.lastName,
+                role: member.role,
+                usageCount: member.usageCount,
+                monthlyLimit: member.monthlyLimit ?? null
+            })),
+            features: features.rows
+        };
+    }
+
+    // Start a new period for every organization whose period has ended (or just organizationId, if given
+    // and due), resetting the pool and each member's share
+    async resetDueUsage(organizationId?: string): Promise<number> {
+        const now = this.clock.now();
+        const due = await dbService.query<{ id: string; billingAnchor: Date }>(`
+      SELECT id, billing_anchor FROM organizations
+      WHERE current_period_end <= $1
+      ${organizationId ? 'AND id = $2' : ''}
+    `, organizationId ? [now, organizationId] : [now]);
+
+        if (due.rows.length === 0) {
+            return 0;
+        }
+
+        const periods = due.rows.map(organization => getBillingPeriod(new Date(organization.billingAnchor), 'monthly', now));
+
+        // The period check is repeated under the lock so two concurrent rollovers can't both reset
+        const result = await dbService.query<{ id: string }>(`
+      WITH next AS (
+        SELECT * FROM UNNEST($1::varchar[], $2::timestamp[], $3::timestamp[]) AS n(id, period_start, period_end)
+      ), previous AS (
+        SELECT o.id
+        FROM organizations o
+        JOIN next ON next.id = o.id
+        WHERE o.current_period_end <= $4
+        FOR UPDATE OF o
+      ), reset AS (
+        UPDATE organizations o
+        SET usage_count = 0,
+            billing_period_start = next.period_start,
+            current_period_end = next.period_end,
+            updated_at = $4
+        FROM previous
+        JOIN next ON next.id = previous.id
+        WHERE o.id = previous.id
+        RETURNING o.id
+      ), members AS (
+        UPDATE memberships m
+        SET usage_count = 0, updated_at = $4
+        FROM reset
+        WHERE m.organization_id = reset.id
+      )
+      SELECT * FROM reset
+    `, [
+            due.rows.map(organization => organization.id),
+            periods.map(period => period.start),
+            periods.map(period => period.end),
+            now
+        ]);
+
+        return result.rows.length;
+    }
+}
+
+export const organizationService = new OrganizationService();
@@ -0,0 +1,130 @@
+import { dbService } from './database.service';
+import { planService } from './plan.service';
+import { billingService, FakeBillingProvider } from './billing.service';
+import { OverageService } from './overage.service';
+import { OverageReport } from '../models/OverageReport';
+import { User } from '../models/User';
+
+jest.mock('./database.service', () => ({ dbService: { query: jest.fn() } }));
+jest.mock('./user.service', () => ({ userService: { invalidateCachedUser: jest.fn() } }));
+jest.mock('./plan.service', () => ({ planService: { getPlan: jest.fn() } }));
+
+const query = dbService.query as jest.Mock;
+const getPlan = planService.getPlan as jest.Mock;
+
+const proPlan = {
+    id: 'pro',
+    overageEnabled: true,
+    overageUnitPriceCents: 2,
+    overageSpendCapCents: 5000,
+    stripeOveragePriceId: 'price_pro_overage'
+};
+
+const report = (overrides: Partial<OverageReport> = {}): OverageReport => ({
+    id: 'report-1',
+    userId: 'user-1',
+    planId: 'pro',
+    subscriptionId: 'sub_1',
+    periodStart: new Date('2024-01-01T00:00:00Z'),
+    periodEnd: new Date('2024-02-01T00:00:00Z'),
+    quantity: 250,
+    unitPriceCents: 2,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date('2024-02-01T00:00:00Z'),
+    ...overrides
+});
+
+// reportPending reads the queue, then writes one UPDATE per report
+const queue = (...reports: OverageReport[]) => query.mockResolvedValueOnce({ rows: reports });
+const updates = () => query.mock.calls.slice(1).map(([sql, params]) => ({ sql: sql as string, params }));
+
+describe('OverageService', () => {
+    let service: OverageService;
+    let provider: FakeBillingProvider;
+
+    beforeEach(() => {
+        query.mockReset();
+        query.mockResolvedValue({ rows: [] });
+        getPlan.mockReset();
+        getPlan.mockResolvedValue(proPlan);
+        provider = new FakeBillingProvider('http://localhost:3000');
+        billingService.setProvider(provider);
+        service = new OverageService();
+    });
+
+    describe('reportPending', () => {
+        it('reports closed-period overage as metered usage and marks it reported', async () => {
+            queue(report());
+
+            await expect(service.reportPending()).resolves.toEqual({ reportedCount: 1, failedCount: 0 });
+
+            expect(provider.usageRecords).toEqual([expect.objectContaining({
+                subscriptionId: 'sub_1',
+                priceId: 'price_pro_overage',
+                quantity: 250,
+                idempotencyKey: 'report-1'
+            })]);
+            expect(updates()).toEqual([{
+                sql: expect.stringContaining("status = 'reported'"),
+                params: ['report-1', provider.usageRecords[0].id]
+            }]);
+        });
+
+        it('only picks up reports that have attempts left', async () => {
+            queue();
+
+            await service.reportPending();
+            expect(query.mock.calls[0][1]).toEqual([10]);
+        });
+
+        it('does not bill a retried report twice', async () => {
+            // The first attempt reached the provider, but recording the result failed
+            queue(report());
+            query.mockRejectedValueOnce(new Error('connection reset'));
+            await service.reportPending();
+
+            queue(report({ status: 'failed', attempts: 1 }));
+            await expect(service.reportPending()).resolves.toEqual({ reportedCount: 1, failedCount: 0 });
+
+            expect(provider.usageRecords).toHaveLength(1);
+            expect(query).toHaveBeenLastCalledWith(expect.stringContaining("status = 'reported'"), ['report-1', provider.usageRecords[0].id]);
+        });
+
+        it.each([
+            ['the user has no subscription', report({ subscriptionId: undefined }), proPlan, 'User has no subscription to bill overage to'],
+            ['the plan has no metered price', report(), { ...proPlan, stripeOveragePriceId: undefined }, 'Plan pro has no metered overage price']
+        ])('marks a report failed when %s', async (_, pending, plan, message) => {
+            queue(pending);
+            getPlan.mockResolvedValue(plan);
+
+            await expect(service.reportPending()).resolves.toEqual({ reportedCount: 0, failedCount: 1 });
+            expect(provider.usageRecords).toHaveLength(0);
+            expect(updates()).toEqual([{ sql: expect.stringContaining("status = 'failed'"), params: ['report-1', message] }]);
+        });
+
+        it('keeps going after a provider error', async () => {
+            queue(report({ id: 'report-1', userId: 'user-1' }), report({ id: 'report-2', userId: 'user-2' }));
+            jest.spyOn(provider, 'reportUsage').mockRejectedValueOnce(new Error('Stripe is unavailable'));
+
+            await expect(service.reportPending()).resolves.toEqual({ reportedCount: 1, failedCount: 1 });
+            expect(updates().map(({ params }) => params[0])).toEqual(['report-1', 'report-2']);
+            expect(updates()[0].params).toEqual(['report-1', 'Stripe is unavailable']);
+            expect(provider.usageRecords.map(record => record.idempotencyKey)).toEqual(['report-2']);
+        });
+    });
+
+    describe('getSummary', () => {
+        it('prices overage units and applies the lower of the user and plan caps', async () => {
+            const user = { subscriptionTier: 'pro', overageCount: 300, overageSpendCapCents: 1000 } as User;
+
+            await expect(service.getSummary(user)).resolves.toEqual({
+                enabled: true,
+                units: 300,
+                unitPriceCents: 2,
+                amountCents: 600,
+                spendCapCents: 1000
+            });
+        });
+    });
+});
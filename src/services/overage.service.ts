@@ -0,0 +1,108 @@
+import { dbService } from './database.service';
+import { userService } from './user.service';
+import { planService } from './plan.service';
+import { billingService } from './billing.service';
+import { User } from '../models/User';
+import { OverageReport, OverageSummary } from '../models/OverageReport';
+
+export class OverageService {
+    // Give up on a report after this many failed attempts; it stays in overage_reports as failed
+    private maxReportAttempts = parseInt(process.env.OVERAGE_REPORT_MAX_ATTEMPTS || '10');
+
+    async getSummary(user: User): Promise<OverageSummary> {
+        const plan = await planService.getPlan(user.subscriptionTier);
+        if (!plan) {
+            return { enabled: false, units: user.overageCount || 0, unitPriceCents: 0, amountCents: 0, spendCapCents: null };
+        }
+
+        const spendCapCents = user.overageSpendCapCents != null
+            ? Math.min(user.overageSpendCapCents, plan.overageSpendCapCents)
+            : plan.overageSpendCapCents;
+
+        return {
+            enabled: plan.overageEnabled,
+            units: user.overageCount || 0,
+            unitPriceCents: plan.overageUnitPriceCents,
+            amountCents: (user.overageCount || 0) * plan.overageUnitPriceCents,
+            spendCapCents: plan.overageEnabled ? spendCapCents : null
+        };
+    }
+
+    // Users may lower their own cap below the plan's (0 turns overage off for them); null goes back to the plan's
+    async setSpendCap(userId: string, spendCapCents: number | null): Promise<User | null> {
+        const result = await dbService.query<User>(`
+      UPDATE users SET overage_spend_cap_cents = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [userId, spendCapCents]);
+        userService.invalidateCachedUser(userId);
+        return result.rows[0] || null;
+    }
+
+    async findReports(userId: string, limit: number = 12): Promise<OverageReport[]> {
+        const result = await dbService.query<OverageReport>(`
+      SELECT * FROM overage_reports
+      WHERE user_id = $1
+      ORDER BY period_start DESC
+      LIMIT $2
+    `, [userId, limit]);
+        return result.rows;
+    }
+
+    // Send queued overage (from closed periods) to the billing provider. Each report's id is the provider
+    // idempotency key, so a report that timed out but actually went through isn't billed twice on retry.
+    async reportPending(): Promise<{ reportedCount: number; failedCount: number }> {
+        const pending = await dbService.query<OverageReport>(`
+      SELECT * FROM overage_reports
+      WHERE status <> 'reported' AND attempts < $1
+      ORDER BY created_at
+      LIMIT 500
+    `, [this.maxReportAttempts]);
+
+        let reportedCount = 0;
+        let failedCount = 0;
+
+        for (const report of pending.rows) {
+            try {
+                const plan = await planService.getPlan(report.planId);
+                if (!report.subscriptionId) {
+                    throw new Error('User has no subscription to bill overage to');
+                }
+                if (!plan?.stripeOveragePriceId) {
+                    throw new Error(`Plan ${report.planId} has no metered overage price`);
+                }
+
+                const record = await billingService.reportUsage({
+                    subscriptionId: report.subscriptionId,
+                    priceId: plan.stripeOveragePriceId,
+                    quantity: report.quantity,
+                    // Stripe only accepts usage inside the subscription's current period, so record it as of now
+                    timestamp: new Date(),
+                    idempotencyKey: report.id
+                });
+
+                await dbService.query(`
+          UPDATE overage_reports
+          SET status = 'reported', attempts = attempts + 1, provider_record_id = $2, error = NULL, reported_at = NOW()
+          WHERE id = $1
+        `, [report.id, record.id]);
+                reportedCount++;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`❌ Failed to report ${report.quantity} overage unit(s) for user ${report.userId}:`, message);
+
+                await dbService.query(`
+          UPDATE overage_reports SET status = 'failed', attempts = attempts + 1, error = $2 WHERE id = $1
+        `, [report.id, message]);
+                failedCount++;
+            }
+        }
+
+        if (reportedCount > 0) {
+            console.log(`✅ Reported overage for ${reportedCount} closed billing period(s)`);
+        }
+        return { reportedCount, failedCount };
+    }
+}
+
+export const overageService = new OverageService();
@@ -0,0 +1,67 @@
+import { dbService } from './database.service';
+import { Plan, PlanId, UpdatePlanData } from '../models/Plan';
+
+export class PlanService {
+    // Plans change rarely and are read on every usage request, so keep them briefly per process
+    private cache: { plans: Plan[]; expiresAt: number } | null = null;
+    private cacheTtlMs = parseInt(process.env.PLAN_CACHE_TTL_MS || '60000');
+
+    async listPlans(): Promise<Plan[]> {
+        if (this.cache && this.cache.expiresAt > Date.now()) {
+            return this.cache.plans;
+        }
+
+        const result = await dbService.query<Plan>('SELECT * FROM plans ORDER BY monthly_limit = -1, monthly_limit');
+        this.cache = { plans: result.rows, expiresAt: Date.now() + this.cacheTtlMs };
+        return result.rows;
+    }
+
+    async getPlan(id: PlanId): Promise<Plan | null> {
+        const plans = await this.listPlans();
+        return plans.find(plan => plan.id === id) || null;
+    }
+
+    // The plan a provider price belongs to (for mapping subscriptions back to tiers)
+    async findByStripePriceId(priceId: string): Promise<Plan | null> {
+        const plans = await this.listPlans();
+        return plans.find(plan => plan.stripePriceId === priceId) || null;
+    }
+
+    async getMonthlyLimit(id: PlanId): Promise<number> {
+        const plan = await this.getPlan(id);
+        if (!plan) {
+            throw new Error(`Plan not found: ${id}`);
+        }
+        return plan.monthlyLimit;
+    }
+
+    async updatePlan(id: PlanId, data: UpdatePlanData): Promise<Plan | null> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        Object.entries(data).forEach(([key, value]) => {
+            if (value !== undefined) {
+                const dbKey = key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+                values.push(key === 'features' ? JSON.stringify(value) : value);
+                fields.push(`${dbKey} = $${values.length}`);
+            }
+        });
+
+        if (fields.length === 0) {
+            return await this.getPlan(id);
+        }
+
+        values.push(id);
+        const result = await dbService.query<Plan>(`
+      UPDATE plans
+      SET ${fields.join(', ')}, updated_at = NOW()
+      WHERE id = $${values.length}
+      RETURNING *
+    `, values);
+
+        this.cache = null;
+        return result.rows[0] || null;
+    }
+}
+
+export const planService = new PlanService();
@@ -0,0 +1,137 @@
+import { dbService } from './database.service';
+import { RefreshToken, Session } from '../models/RefreshToken';
+import { describeDevice } from '../utils/user-agent.util';
+
+export class RefreshTokenService {
+    async create(data: {
+        id: string;
+        userId: string;
+        familyId: string;
+        tokenHash: string;
+        userAgent?: string;
+        ipAddress?: string;
+        expiresAt: Date;
+    }): Promise<RefreshToken> {
+        const query = `
+      INSERT INTO refresh_tokens (
+        id, user_id, family_id, token_hash, user_agent, ip_address,
+        session_started_at, issued_at, expires_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6,
+        COALESCE((SELECT MIN(session_started_at) FROM refresh_tokens WHERE family_id = $3), NOW()),
+        NOW(), $7
+      )
+      RETURNING *
+    `;
+
+        const values = [
+            data.id,
+            data.userId,
+            data.familyId,
+            data.tokenHash,
+            data.userAgent || null,
+            data.ipAddress || null,
+            data.expiresAt
+        ];
+
+        const result = await dbService.query<RefreshToken>(query, values);
+        return result.rows[0];
+    }
+
+    async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+        const query = 'SELECT * FROM refresh_tokens WHERE token_hash = $1';
+        const result = await dbService.query<RefreshToken>(query, [tokenHash]);
+        return result.rows[0] || null;
+    }
+
+    // Retire a token in favour of its successor. Only one caller can win this for a given token,
+    // so two concurrent refreshes with the same token are treated as reuse.
+    async markRotated(id: string, replacedBy: string): Promise<boolean> {
+        const query = `
+      UPDATE refresh_tokens
+      SET revoked_at = NOW(), revoked_reason = 'rotated', replaced_by = $2
+      WHERE id = $1 AND revoked_at IS NULL
+    `;
+        const result = await dbService.query(query, [id, replacedBy]);
+        return (result.rowCount || 0) > 0;
+    }
+
+    async revokeFamily(familyId: string, reason: string): Promise<number> {
+        const query = `
+      UPDATE refresh_tokens
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE family_id = $1 AND revoked_at IS NULL
+    `;
+        const result = await dbService.query(query, [familyId, reason]);
+        return result.rowCount || 0;
+    }
+
+    // A family is revoked once any of its tokens was revoked for a reason other than rotation (logout,
+    // session revocation, reuse, password change). Checked on every authenticated request.
+    async isFamilyRevoked(familyId: string): Promise<boolean> {
+        const query = `
+      SELECT EXISTS (
+        SELECT 1 FROM refresh_tokens
+        WHERE family_id = $1 AND revoked_at IS NOT NULL AND revoked_reason <> 'rotated'
+      ) AS revoked
+    `;
+        const result = await dbService.query<{ revoked: boolean }>(query, [familyId]);
+        return result.rows[0].revoked;
+    }
+
+    // Each active session has exactly one live token: the latest in its family
+    async findActiveSessions(userId: string): Promise<Session[]> {
+        const query = `
+      SELECT family_id, user_agent, ip_address, session_started_at, issued_at, expires_at
+      FROM refresh_tokens
+      WHERE user_id = $1
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+      ORDER BY issued_at DESC
+    `;
+        const result = await dbService.query<RefreshToken>(query, [userId]);
+
+        return result.rows.map(token => ({
+            id: token.familyId,
+            device: describeDevice(token.userAgent),
+            userAgent: token.userAgent,
+            ipAddress: token.ipAddress,
+            createdAt: token.sessionStartedAt,
+            lastUsedAt: token.issuedAt,
+            expiresAt: token.expiresAt
+        }));
+    }
+
+    // Revoke one of the user's sessions. Returns false if it isn't theirs or is already revoked.
+    async revokeSession(userId: string, familyId: string): Promise<boolean> {
+        const query = `
+      UPDATE refresh_tokens
+      SET revoked_at = NOW(), revoked_reason = 'session_revoked'
+      WHERE user_id = $1 AND family_id = $2 AND revoked_at IS NULL
+    `;
+        const result = await dbService.query(query, [userId, familyId]);
+        return (result.rowCount || 0) > 0;
+    }
+
+    async revokeAllForUser(userId: string, reason: string): Promise<number> {
+        const query = `
+      UPDATE refresh_tokens
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE user_id = $1 AND revoked_at IS NULL
+    `;
+        const result = await dbService.query(query, [userId, reason]);
+        return result.rowCount || 0;
+    }
+
+    // Remove expired tokens. Rotated tokens are kept until they expire so reuse can still be detected.
+    async deleteExpired(): Promise<number> {
+        const query = `
+      DELETE FROM refresh_tokens
+      WHERE expires_at < NOW()
+    `;
+        const result = await dbService.query(query);
+        return result.rowCount || 0;
+    }
+}
+
+export const refreshTokenService = new RefreshTokenService();
@@ -1,11 +1,107 @@
+import { dbService } from './database.service';
 import { userService } from './user.service';
+import { refreshTokenService } from './refresh-token.service';
+import { idempotencyService } from './idempotency.service';
+import { usageReservationService } from './usage-reservation.service';
+import { dunningService } from './dunning.service';
+import { overageService } from './overage.service';
+import { creditService } from './credit.service';
+import { organizationService } from './organization.service';
+import { JobDefinition, JobRunResult, JobTrigger, ScheduledJob } from '../models/ScheduledJob';
+import { Clock, systemClock } from '../utils/clock.util';
+import { nextCronRun, parseCron } from '../utils/cron.util';
 
+// Background jobs on cron schedules. Job state lives in the scheduled_jobs table, so every instance
+// sees the same schedule; a Postgres advisory lock makes sure only one instance runs a job at a time.
+// A run that was due while no instance was up runs on the next tick (missed runs collapse into one).
 export class SchedulerService {
     private static instance: SchedulerService;
-    private monthlyResetInterval: NodeJS.Timeout | null = null;
-    private isRunning = false;
+    private jobs = new Map<string, JobDefinition>();
+    private tickInterval: NodeJS.Timeout | null = null;
+    private ticking = false;
+    private tickIntervalMs = parseInt(process.env.JOB_TICK_INTERVAL_MS || '60000');
+    private clock: Clock = systemClock;
 
-    private constructor() { }
+    private constructor() {
+        this.register({
+            name: 'billing-period-rollover',
+            description: 'Start a new billing period for users and organizations whose current period has ended, and report the closed periods\' overage',
+            schedule: '0 * * * *',
+            run: async () => {
+                const result = await userService.resetMonthlyUsage();
+                const organizationResetCount = await organizationService.resetDueUsage();
+                // Also retries reports that failed on earlier runs
+                const overage = await overageService.reportPending();
+                if (result.errors.length > 0) {
+                    throw new Error(result.errors.join('; '));
+                }
+                return { resetCount: result.resetCount, organizationResetCount, ...overage };
+            }
+        });
+
+        this.register({
+            name: 'usage-reservation-expiry',
+            description: 'Return units held by usage reservations that expired without being committed or released',
+            schedule: '* * * * *',
+            run: async () => {
+                const expiredCount = await usageReservationService.expireHolds();
+                if (expiredCount > 0) {
+                    console.log(`🧹 Expired ${expiredCount} usage reservation(s)`);
+                }
+                return { expiredCount };
+            }
+        });
+
+        this.register({
+            name: 'credit-expiry',
+            description: 'Zero out prepaid credit packs past their expiry date',
+            schedule: '30 * * * *',
+            run: async () => {
+                const expiredCount = await creditService.expireDue();
+                if (expiredCount > 0) {
+                    console.log(`🧹 Expired ${expiredCount} credit pack(s)`);
+                }
+                return { expiredCount };
+            }
+        });
+
+        this.register({
+            name: 'dunning',
+            description: 'Move users with unpaid subscriptions to the next dunning state and send payment reminders',
+            schedule: '*/15 * * * *',
+            run: async () => {
+                const advancedCount = await dunningService.advanceExpired();
+                const remindedCount = await dunningService.sendReminders();
+                return { advancedCount, remindedCount };
+            }
+        });
+
+        this.register({
+            name: 'refresh-token-cleanup',
+            description: 'Delete refresh tokens past their expiry',
+            schedule: '0 3 * * *',
+            run: async () => {
+                const deletedCount = await refreshTokenService.deleteExpired();
+                if (deletedCount > 0) {
+                    console.log(`🧹 Removed ${deletedCount} expired refresh token(s)`);
+                }
+                return { deletedCount };
+            }
+        });
+
+        this.register({
+            name: 'idempotency-key-cleanup',
+            description: 'Delete idempotency keys past their TTL',
+            schedule: '15 3 * * *',
+            run: async () => {
+                const deletedCount = await idempotencyService.deleteExpired();
+                if (deletedCount > 0) {
+                    console.log(`🧹 Removed ${deletedCount} expired idempotency key(s)`);
+                }
+                return { deletedCount };
+            }
+        });
+    }
 
     static getInstance(): SchedulerService {
         if (!SchedulerService.instance) {
@@ -14,82 +110,183 @@ export class SchedulerService {
         return SchedulerService.instance;
     }
 
-    // Start the monthly reset scheduler
-    startMonthlyReset(): void {
-        if (this.isRunning) {
-            console.log('📅 Monthly reset scheduler is already running');
-            return;
-        }
+    // Tests pair this with userService.setClock() and dunningService.setClock() to simulate period boundaries
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
 
-        console.log('📅 Starting monthly reset scheduler...');
+    register(definition: JobDefinition): void {
+        parseCron(definition.schedule); // Fail at startup on a bad expression, not on the first tick
+        this.jobs.set(definition.name, definition);
+    }
 
-        // Check for resets immediately
-        this.performMonthlyReset();
+    async start(): Promise<void> {
+        if (this.tickInterval) {
+            console.log('📅 Job scheduler is already running');
+            return;
+        }
 
-        // Set up interval to check every 24 hours
-        // In production, you might want to use a proper cron job or external scheduler
-        this.monthlyResetInterval = setInterval(() => {
-            this.performMonthlyReset();
-        }, 24 * 60 * 60 * 1000); // 24 hours
+        console.log('📅 Starting job scheduler...');
+        this.tickInterval = setInterval(() => this.tick(), this.tickIntervalMs);
 
-        this.isRunning = true;
-        console.log('✅ Monthly reset scheduler started - checking every 24 hours');
+        try {
+            await this.syncJobs();
+            await this.tick();
+            console.log(`✅ Job scheduler started - ${this.jobs.size} job(s), checking every ${this.tickIntervalMs / 1000}s`);
+        } catch (error) {
+            console.error('❌ Job scheduler failed to start:', error);
+        }
     }
 
-    // Stop the scheduler
-    stopMonthlyReset(): void {
-        if (this.monthlyResetInterval) {
-            clearInterval(this.monthlyResetInterval);
-            this.monthlyResetInterval = null;
+    stop(): void {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = null;
         }
-        this.isRunning = false;
-        console.log('🛑 Monthly reset scheduler stopped');
+        console.log('🛑 Job scheduler stopped');
     }
 
-    // Perform the monthly reset check and execution
-    private async performMonthlyReset(): Promise<void> {
+    // Run every job whose next run time has passed
+    async tick(): Promise<void> {
+        if (this.ticking) {
+            return;
+        }
+        this.ticking = true;
+
         try {
-            const now = new Date();
-            const currentDay = now.getDate();
+            const due = await dbService.query<{ name: string }>(
+                'SELECT name FROM scheduled_jobs WHERE next_run_at <= $1 AND name = ANY($2) ORDER BY next_run_at',
+                [this.clock.now(), [...this.jobs.keys()]]
+            );
 
-            // Only reset on the 1st of each month
-            if (currentDay !== 1) {
-                console.log(`📅 Monthly reset check: Not the 1st of the month (it's the ${currentDay}th)`);
-                return;
+            for (const { name } of due.rows) {
+                await this.runJob(name, 'schedule');
             }
+        } catch (error) {
+            console.error('❌ Job scheduler tick failed:', error);
+        } finally {
+            this.ticking = false;
+        }
+    }
 
-            console.log(`📅 Performing monthly usage reset for ${now.toLocaleDateString()}`);
-
-            // Reset usage for all users whose billing period has ended
-            const resetResult = await userService.resetMonthlyUsage();
+    // Run a job now. Returns null if it was skipped: another instance holds its lock, or (for scheduled
+    // runs) another instance already ran it.
+    async runJob(name: string, trigger: JobTrigger = 'manual'): Promise<JobRunResult | null> {
+        const definition = this.jobs.get(name);
+        if (!definition) {
+            throw new Error('Job not found');
+        }
+        if (trigger === 'manual') {
+            await this.syncJobs();
+        }
 
-            if (resetResult.resetCount > 0) {
-                console.log(`✅ Monthly reset completed: ${resetResult.resetCount} user(s) had their usage reset`);
-            } else {
-                console.log('📊 Monthly reset check: No users needed reset (already up to date)');
+        // Advisory locks belong to a connection, so lock and unlock on the same client
+        const client = await dbService.getClient();
+        try {
+            const lock = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [`job:${name}`]);
+            if (!lock.rows[0].locked) {
+                return null;
             }
 
-            if (resetResult.errors.length > 0) {
-                console.error('❌ Monthly reset errors:', resetResult.errors);
+            try {
+                return await this.execute(definition, trigger);
+            } finally {
+                await client.query('SELECT pg_advisory_unlock(hashtext($1))', [`job:${name}`]);
             }
-
-        } catch (error) {
-            console.error('❌ Monthly reset failed:', error);
+        } finally {
+            client.release();
         }
     }
 
-    // Manual trigger for testing
-    async triggerMonthlyReset(): Promise<{ resetCount: number; errors: string[] }> {
-        console.log('🔧 Manual monthly reset triggered');
-        return await userService.resetMonthlyUsage();
+    async listJobs(): Promise<Array<ScheduledJob & { description: string }>> {
+        await this.syncJobs();
+
+        const result = await dbService.query<ScheduledJob>(
+            'SELECT * FROM scheduled_jobs WHERE name = ANY($1) ORDER BY name',
+            [[...this.jobs.keys()]]
+        );
+
+        return result.rows.map(job => ({
+            ...job,
+            description: this.jobs.get(job.name)!.description
+        }));
     }
 
-    // Get scheduler status
-    getStatus(): { isRunning: boolean; nextCheck?: Date } {
-        return {
-            isRunning: this.isRunning,
-            nextCheck: this.monthlyResetInterval ? new Date(Date.now() + 24 * 60 * 60 * 1000) : undefined
-        };
+    private async execute(definition: JobDefinition, trigger: JobTrigger): Promise<JobRunResult | null> {
+        const startedAt = this.clock.now();
+
+        // Re-check under the lock: another instance may have run it between our query and the lock
+        const claimed = await dbService.query(`
+      UPDATE scheduled_jobs
+      SET last_started_at = $2, last_status = 'running', last_trigger = $3, updated_at = NOW()
+      WHERE name = $1 ${trigger === 'schedule' ? 'AND next_run_at <= $2' : ''}
+      RETURNING name
+    `, [definition.name, startedAt, trigger]);
+
+        if (claimed.rows.length === 0) {
+            return null;
+        }
+
+        let status: JobRunResult['status'] = 'succeeded';
+        let result: Record<string, unknown> | undefined;
+        let error: string | undefined;
+
+        try {
+            result = (await definition.run()) || undefined;
+        } catch (runError) {
+            status = 'failed';
+            error = runError instanceof Error ? runError.message : String(runError);
+            console.error(`❌ Job ${definition.name} failed:`, runError);
+        }
+
+        const finishedAt = this.clock.now();
+        const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+        // Scheduled runs move on to the next occurrence after now, so missed runs collapse into this one
+        await dbService.query(`
+      UPDATE scheduled_jobs
+      SET last_finished_at = $2,
+          last_status = $3,
+          last_result = $4,
+          last_error = $5,
+          last_duration_ms = $6,
+          run_count = run_count + 1,
+          failure_count = failure_count + CASE WHEN $3 = 'failed' THEN 1 ELSE 0 END,
+          next_run_at = COALESCE($7, next_run_at),
+          updated_at = NOW()
+      WHERE name = $1
+    `, [
+            definition.name,
+            finishedAt,
+            status,
+            result ? JSON.stringify(result) : null,
+            error || null,
+            durationMs,
+            trigger === 'schedule' ? nextCronRun(definition.schedule, startedAt) : null
+        ]);
+
+        if (trigger === 'manual') {
+            console.log(`🔧 Job ${definition.name} triggered manually: ${status}`);
+        }
+
+        return { name: definition.name, trigger, status, startedAt, finishedAt, durationMs, result, error };
+    }
+
+    // Make sure every registered job has a row. A changed schedule takes effect from its next occurrence.
+    private async syncJobs(): Promise<void> {
+        const now = this.clock.now();
+
+        for (const definition of this.jobs.values()) {
+            await dbService.query(`
+        INSERT INTO scheduled_jobs (name, schedule, next_run_at)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (name) DO UPDATE
+        SET schedule = EXCLUDED.schedule,
+            next_run_at = EXCLUDED.next_run_at,
+            updated_at = NOW()
+        WHERE scheduled_jobs.schedule <> EXCLUDED.schedule
+      `, [definition.name, definition.schedule, nextCronRun(definition.schedule, now)]);
+        }
     }
 }
 
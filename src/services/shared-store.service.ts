@@ -0,0 +1,207 @@
+import { createClient } from 'redis';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Small key/value + counter store shared by every app instance (rate limits, idempotency keys)
+export interface SharedStore {
+    // Add a hit to a fixed window counter that starts with the first hit
+    increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }>;
+    decrement(key: string): Promise<void>;
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlMs: number): Promise<void>;
+    // Returns false (and leaves the value alone) if the key already exists
+    setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+    delete(key: string): Promise<void>;
+    close(): Promise<void>;
+}
+
+// Per-process only; used when REDIS_URL isn't set and in tests
+export class MemorySharedStore implements SharedStore {
+    private entries = new Map<string, { value: string; expiresAt: number }>();
+    private cleanupInterval: NodeJS.Timeout;
+
+    constructor() {
+        this.cleanupInterval = setInterval(() => this.removeExpired(), 60 * 1000);
+        this.cleanupInterval.unref();
+    }
+
+    async increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }> {
+        const entry = this.getEntry(key);
+        const totalHits = entry ? parseInt(entry.value) + 1 : 1;
+        const expiresAt = entry ? entry.expiresAt : Date.now() + windowMs;
+
+        this.entries.set(key, { value: String(totalHits), expiresAt });
+        return { totalHits, resetTime: new Date(expiresAt) };
+    }
+
+    async decrement(key: string): Promise<void> {
+        const entry = this.getEntry(key);
+        if (entry) {
+            entry.value = String(Math.max(parseInt(entry.value) - 1, 0));
+        }
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.getEntry(key)?.value ?? null;
+    }
+
+    async set(key: string, value: string, ttlMs: number): Promise<void> {
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+
+    async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+        if (this.getEntry(key)) {
+            return false;
+        }
+        await this.set(key, value, ttlMs);
+        return true;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.cleanupInterval);
+        this.entries.clear();
+    }
+
+    private getEntry(key: string): { value: string; expiresAt: number } | undefined {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private removeExpired(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+    }
+}
+
+export class RedisSharedStore implements SharedStore {
+    private client: ReturnType<typeof createClient>;
+    private connecting: Promise<unknown> | null = null;
+
+    constructor(url: string, private keyPrefix: string = 'paylens:') {
+        this.client = createClient({ url });
+        this.client.on('error', error => console.error('Redis error:', error));
+    }
+
+    async increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }> {
+        const client = await this.getClient();
+        const redisKey = this.keyPrefix + key;
+
+        const [totalHits, ttl] = await client.multi().incr(redisKey).pTTL(redisKey).exec() as [number, number];
+
+        // First hit in the window (or a counter that lost its expiry): start the window now
+        let remainingMs = ttl;
+        if (ttl < 0) {
+            await client.pExpire(redisKey, windowMs);
+            remainingMs = windowMs;
+        }
+
+        return { totalHits, resetTime: new Date(Date.now() + remainingMs) };
+    }
+
+    async decrement(key: string): Promise<void> {
+        const client = await this.getClient();
+        await client.decr(this.keyPrefix + key);
+    }
+
+    async get(key: string): Promise<string | null> {
+        const client = await this.getClient();
+        return await client.get(this.keyPrefix + key);
+    }
+
+    async set(key: string, value: string, ttlMs: number): Promise<void> {
+        const client = await this.getClient();
+        await client.set(this.keyPrefix + key, value, { PX: ttlMs });
+    }
+
+    async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+        const client = await this.getClient();
+        const result = await client.set(this.keyPrefix + key, value, { PX: ttlMs, NX: true });
+        return result === 'OK';
+    }
+
+    async delete(key: string): Promise<void> {
+        const client = await this.getClient();
+        await client.del(this.keyPrefix + key);
+    }
+
+    async close(): Promise<void> {
+        if (this.client.isOpen) {
+            await this.client.quit();
+        }
+    }
+
+    // Connect lazily so importing this module never blocks startup
+    private async getClient(): Promise<ReturnType<typeof createClient>> {
+        if (!this.client.isOpen) {
+            if (!this.connecting) {
+                this.connecting = this.client.connect().finally(() => {
+                    this.connecting = null;
+                });
+            }
+            await this.connecting;
+        }
+        return this.client;
+    }
+}
+
+// Delegates to Redis when REDIS_URL is set, otherwise to process memory. Swap with setStore().
+export class SharedStoreService implements SharedStore {
+    private store: SharedStore;
+
+    constructor() {
+        this.store = process.env.REDIS_URL
+            ? new RedisSharedStore(process.env.REDIS_URL)
+            : new MemorySharedStore();
+
+        if (!process.env.REDIS_URL && process.env.NODE_ENV === 'production') {
+            console.warn('⚠️  REDIS_URL is not set: rate limits and idempotency keys are per instance');
+        }
+    }
+
+    setStore(store: SharedStore): void {
+        this.store = store;
+    }
+
+    increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }> {
+        return this.store.increment(key, windowMs);
+    }
+
+    decrement(key: string): Promise<void> {
+        return this.store.decrement(key);
+    }
+
+    get(key: string): Promise<string | null> {
+        return this.store.get(key);
+    }
+
+    set(key: string, value: string, ttlMs: number): Promise<void> {
+        return this.store.set(key, value, ttlMs);
+    }
+
+    setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+        return this.store.setIfAbsent(key, value, ttlMs);
+    }
+
+    delete(key: string): Promise<void> {
+        return this.store.delete(key);
+    }
+
+    close(): Promise<void> {
+        return this.store.close();
+    }
+}
+
+export const sharedStoreService = new SharedStoreService();
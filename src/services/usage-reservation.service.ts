@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbService } from './database.service';
+import { userService, DEFAULT_USAGE_FEATURE } from './user.service';
+import { User } from '../models/User';
+import { CreateUsageReservationData, UsageReservation } from '../models/UsageReservation';
+
+export class UsageReservationService {
+    private defaultExpiresInSeconds = parseInt(process.env.USAGE_RESERVATION_TTL_SECONDS || '3600');
+
+    // Hold units against the monthly limit. Held units count as used for every other limit check until
+    // the reservation is committed, released or expires.
+    async create(
+        userId: string,
+        data: CreateUsageReservationData
+    ): Promise<{ reservation: UsageReservation | null; user: User | null; error?: string; wasReset?: boolean }> {
+        const resetCheck = await userService.checkAndResetMonthlyUsage(userId);
+        if (!resetCheck.user) {
+            return { reservation: null, user: null, error: 'User not found' };
+        }
+
+        // Same conditional row-locking UPDATE as consumeUsage, so holds and increments can't overshoot together.
+        // Holds only come out of the included allowance, never credits or overage.
+        const query = `
+            WITH updated AS (
+                UPDATE users
+                SET reserved_count = reserved_count + $2, updated_at = NOW()
+                WHERE id = $1
+                AND (
+                    monthly_limit < 0
+                    OR usage_count - overage_count - credit_usage_count + reserved_count + $2 <= monthly_limit
+                )
+                RETURNING id
+            )
+            INSERT INTO usage_reservations (id, user_id, feature, quantity, request_id, metadata, expires_at)
+            SELECT $3, id, $4, $2, $5, $6, NOW() + ($7 * INTERVAL '1 second') FROM updated
+            RETURNING *
+        `;
+        const result = await dbService.query<UsageReservation>(query, [
+            userId,
+            data.quantity,
+            uuidv4(),
+            data.feature || DEFAULT_USAGE_FEATURE,
+            data.requestId || null,
+            data.metadata ? JSON.stringify(data.metadata) : null,
+            data.expiresInSeconds || this.defaultExpiresInSeconds
+        ]);
+        userService.invalidateCachedUser(userId);
+
+        const user = await userService.findById(userId);
+        if (!user) {
+            return { reservation: null, user: null, error: 'User not found' };
+        }
+
+        if (result.rows.length === 0) {
+            return {
+                reservation: null,
+                user,
+                error: userService.limitExceededMessage(user),
+                wasReset: resetCheck.wasReset
+            };
+        }
+
+        return { reservation: result.rows[0], user, wasReset: resetCheck.wasReset };
+    }
+
+    async findById(userId: string, reservationId: string): Promise<UsageReservation | null> {
+        const result = await dbService.query<UsageReservation>(
+            'SELECT * FROM usage_reservations WHERE id = $1 AND user_id = $2',
+            [reservationId, userId]
+        );
+        return result.rows[0] || null;
+    }
+
+    // Turn a hold into real usage. Committing less than was held (the job needed less) returns the rest;
+    // the committed units are written to the ledger like any other consumption.
+    async commit(userId: string, reservationId: string, quantity?: number): Promise<UsageReservation> {
+        const query = `
+            WITH committed AS (
+                UPDATE usage_reservations
+                SET status = 'committed', committed_quantity = COALESCE($3, quantity), resolved_at = NOW()
+                WHERE id = $1 AND user_id = $2
+                AND status = 'held'
+                AND expires_at > NOW()
+                AND ($3::integer IS NULL OR $3 <= quantity)
+                RETURNING *
+            ), updated AS (
+                UPDATE users u
+                SET usage_count = u.usage_count + c.committed_quantity,
+                    reserved_count = GREATEST(u.reserved_count - c.quantity, 0),
+                    updated_at = NOW()
+                FROM committed c
+                WHERE u.id = c.user_id
+                RETURNING u.id, u.billing_period_start
+            ), event AS (
+                INSERT INTO usage_events (id, user_id, feature, quantity, request_id, metadata, billing_period_start)
+                SELECT $4, c.user_id, c.feature, c.committed_quantity, c.request_id,
+                    COALESCE(c.metadata, '{}'::jsonb) || jsonb_build_object('reservationId', c.id),
+                    updated.billing_period_start
+                FROM committed c, updated
+                WHERE c.committed_quantity > 0
+            )
+            SELECT * FROM committed
+        `;
+        const result = await dbService.query<UsageReservation>(query, [reservationId, userId, quantity ?? null, uuidv4()]);
+        userService.invalidateCachedUser(userId);
+
+        if (result.rows.length === 0) {
+            await this.explainUnavailable(userId, reservationId, quantity);
+        }
+        return result.rows[0];
+    }
+
+    // Give held units back. An expired hold the sweeper hasn't reached yet can still be released.
+    async release(userId: string, reservationId: string): Promise<UsageReservation> {
+        const query = `
+            WITH released AS (
+                UPDATE usage_reservations
+                SET status = 'released', resolved_at = NOW()
+                WHERE id = $1 AND user_id = $2 AND status = 'held'
+                RETURNING *
+            ), updated AS (
+                UPDATE users u
+                SET reserved_count = GREATEST(u.reserved_count - r.quantity, 0), updated_at = NOW()
+                FROM released r
+                WHERE u.id = r.user_id
+            )
+            SELECT * FROM released
+        `;
+        const result = await dbService.query<UsageReservation>(query, [reservationId, userId]);
+        userService.invalidateCachedUser(userId);
+
+        if (result.rows.length === 0) {
+            await this.explainUnavailable(userId, reservationId);
+        }
+        return result.rows[0];
+    }
+
+    // Mark holds past their expiry as expired and give their units back (run by the scheduler)
+    async expireHolds(): Promise<number> {
+        const query = `
+            WITH expired AS (
+                UPDATE usage_reservations
+                SET status = 'expired', resolved_at = NOW()
+                WHERE status = 'held' AND expires_at <= NOW()
+                RETURNING user_id, quantity
+            ), totals AS (
+                SELECT user_id, SUM(quantity) AS quantity FROM expired GROUP BY user_id
+            ), updated AS (
+                UPDATE users u
+                SET reserved_count = GREATEST(u.reserved_count - t.quantity, 0), updated_at = NOW()
+                FROM totals t
+                WHERE u.id = t.user_id
+            )
+            SELECT COUNT(*) AS count FROM expired
+        `;
+        const result = await dbService.query<{ count: string }>(query);
+        const expiredCount = parseInt(result.rows[0].count);
+
+        if (expiredCount > 0) {
+            userService.invalidateCachedUser();
+        }
+        return expiredCount;
+    }
+
+    // Work out why a commit/release matched nothing and throw the matching error
+    private async explainUnavailable(userId: string, reservationId: string, quantity?: number): Promise<never> {
+        const reservation = await this.findById(userId, reservationId);
+
+        if (!reservation) {
+            throw new Error('Reservation not found');
+        }
+        if (reservation.status !== 'held') {
+            throw new Error(`Reservation is already ${reservation.status}`);
+        }
+        if (new Date(reservation.expiresAt).getTime() <= Date.now()) {
+            throw new Error('Reservation has expired');
+        }
+        if (quantity !== undefined && quantity > reservation.quantity) {
+            throw new Error('Commit quantity exceeds the reserved quantity');
+        }
+        throw new Error('Reservation could not be updated');
+    }
+}
+
+export const usageReservationService = new UsageReservationService();
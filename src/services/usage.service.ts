@@ -0,0 +1,135 @@
+import { dbService } from './database.service';
+import { User } from '../models/User';
+import { UsageEvent, UsageEventFilters, UsageHistory, UsageHistoryInterval } from '../models/UsageEvent';
+import { addBillingCycles, getBillingPeriod } from '../utils/billing-period.util';
+import { Clock, systemClock } from '../utils/clock.util';
+
+export class UsageService {
+    private clock: Clock = systemClock;
+
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
+
+    // A user's usage ledger, newest first. Survives monthly resets, unlike users.usage_count.
+    // Usage drawn from an organization's pool belongs to the organization, so it isn't included.
+    async findEvents(userId: string, filters: UsageEventFilters): Promise<{ events: UsageEvent[]; total: number }> {
+        const conditions: string[] = ['user_id = $1', 'organization_id IS NULL'];
+        const values: any[] = [userId];
+
+        if (filters.feature) {
+            values.push(filters.feature);
+            conditions.push(`feature = $${values.length}`);
+        }
+        if (filters.from) {
+            values.push(filters.from);
+            conditions.push(`created_at >= $${values.length}`);
+        }
+        if (filters.to) {
+            values.push(filters.to);
+            conditions.push(`created_at < $${values.length}`);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+
+        const countResult = await dbService.query<{ total: string }>(`SELECT COUNT(*) AS total FROM usage_events ${where}`, values);
+
+        const query = `
+      SELECT * FROM usage_events
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+        const result = await dbService.query<UsageEvent>(query, [...values, filters.limit, filters.offset]);
+
+        return {
+            events: result.rows,
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+
+    // Bucketed usage across the current and previous billing periods, plus a per-feature
+    // breakdown and a straight-line projection for the current period
+    async getHistory(user: User, options: { interval: UsageHistoryInterval; periods: number }): Promise<UsageHistory> {
+        const periodStart = new Date(user.billingPeriodStart);
+        const periodEnd = new Date(user.currentPeriodEnd);
+
+        const anchor = new Date(user.billingAnchor);
+        const timezone = user.timezone || undefined;
+        const { index } = getBillingPeriod(anchor, user.billingCycle, periodStart, timezone);
+        const from = addBillingCycles(anchor, index - (options.periods - 1), user.billingCycle, timezone);
+        const now = this.clock.now();
+
+        // Buckets follow the account's time zone, like its billing periods: timestamps are stored in UTC, so
+        // they're shifted to local wall-clock time to truncate, and each bucket start is shifted back to UTC.
+        // generate_series yields empty buckets too, so charts don't have gaps.
+        const bucketsQuery = `
+      SELECT (b.bucket AT TIME ZONE $4) AT TIME ZONE 'UTC' AS start, COALESCE(SUM(e.quantity), 0)::int AS quantity
+      FROM generate_series(
+        DATE_TRUNC($2, ($3::timestamp AT TIME ZONE 'UTC') AT TIME ZONE $4),
+        DATE_TRUNC($2, ($5::timestamp AT TIME ZONE 'UTC') AT TIME ZONE $4),
+        ('1 ' || $2)::interval
+      ) AS b(bucket)
+      LEFT JOIN usage_events e
+        ON e.user_id = $1
+        AND e.organization_id IS NULL
+        AND e.created_at >= $3
+        AND e.created_at <= $5
+        AND DATE_TRUNC($2, (e.created_at AT TIME ZONE 'UTC') AT TIME ZONE $4) = b.bucket
+      GROUP BY b.bucket
+      ORDER BY b.bucket
+    `;
+
+        const periodsQuery = `
+      SELECT billing_period_start, SUM(quantity)::int AS quantity
+      FROM usage_events
+      WHERE user_id = $1 AND organization_id IS NULL AND billing_period_start >= $2
+      GROUP BY billing_period_start
+      ORDER BY billing_period_start
+    `;
+
+        const featuresQuery = `
+      SELECT feature, SUM(quantity)::int AS quantity
+      FROM usage_events
+      WHERE user_id = $1 AND organization_id IS NULL AND created_at >= $2
+      GROUP BY feature
+      ORDER BY quantity DESC
+    `;
+
+        const [buckets, periods, features] = await Promise.all([
+            dbService.query<{ start: Date; quantity: number }>(bucketsQuery, [user.id, options.interval, from, timezone || 'UTC', now]),
+            dbService.query<{ billingPeriodStart: Date; quantity: number }>(periodsQuery, [user.id, from]),
+            dbService.query<{ feature: string; quantity: number }>(featuresQuery, [user.id, from])
+        ]);
+
+        return {
+            interval: options.interval,
+            from,
+            buckets: buckets.rows,
+            periods: periods.rows,
+            features: features.rows,
+            projection: this.projectUsage(user, periodStart, periodEnd, now)
+        };
+    }
+
+    private projectUsage(user: User, periodStart: Date, periodEnd: Date, now: Date): UsageHistory['projection'] {
+        const elapsed = Math.max(now.getTime() - periodStart.getTime(), 0);
+        const length = periodEnd.getTime() - periodStart.getTime();
+
+        // Extrapolate the current rate over the whole period (no projection until some time has passed)
+        const projected = elapsed > 0
+            ? Math.round(user.usageCount * (length / Math.min(elapsed, length)))
+            : user.usageCount;
+
+        return {
+            periodStart,
+            periodEnd,
+            used: user.usageCount,
+            projected,
+            monthlyLimit: user.monthlyLimit,
+            projectedToExceed: user.monthlyLimit >= 0 && projected > user.monthlyLimit
+        };
+    }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,254 @@
+import { dbService } from './database.service';
+import { auditService } from './audit.service';
+import { UserService } from './user.service';
+import { FixedClock } from '../utils/clock.util';
+import { User } from '../models/User';
+
+jest.mock('./database.service', () => ({ dbService: { query: jest.fn() } }));
+jest.mock('./audit.service', () => ({ auditService: { record: jest.fn(), recordMany: jest.fn() } }));
+
+const query = dbService.query as jest.Mock;
+
+describe('UserService billing period rollover', () => {
+    let service: UserService;
+    let clock: FixedClock;
+
+    beforeEach(() => {
+        query.mockReset();
+        (auditService.recordMany as jest.Mock).mockReset();
+        clock = new FixedClock(new Date('2024-02-15T12:00:00Z'));
+        service = new UserService();
+        service.setClock(clock);
+    });
+
+    describe('getBillingPeriod', () => {
+        it('clamps a month-end anchor and returns to its day afterwards', () => {
+            const user = { billingAnchor: new Date('2024-01-31T00:00:00Z'), billingCycle: 'monthly' as const };
+
+            expect(service.getBillingPeriod(user)).toMatchObject({
+                start: new Date('2024-01-31T00:00:00Z'),
+                end: new Date('2024-02-29T00:00:00Z')
+            });
+
+            clock.set(new Date('2024-02-29T00:00:00Z'));
+            expect(service.getBillingPeriod(user)).toMatchObject({
+                start: new Date('2024-02-29T00:00:00Z'),
+                end: new Date('2024-03-31T00:00:00Z')
+            });
+        });
+
+        it('rolls over at midnight in the account time zone, across a DST change', () => {
+            // Midnight on Mar 1 in New York (EST); the next boundary is midnight on Apr 1 (EDT)
+            const user = {
+                billingAnchor: new Date('2024-03-01T05:00:00Z'),
+                billingCycle: 'monthly' as const,
+                timezone: 'America/New_York'
+            };
+
+            clock.set(new Date('2024-04-01T03:59:59Z'));
+            expect(service.getBillingPeriod(user)).toMatchObject({
+                start: new Date('2024-03-01T05:00:00Z'),
+                end: new Date('2024-04-01T04:00:00Z')
+            });
+
+            clock.advance(1000);
+            expect(service.getBillingPeriod(user).start).toEqual(new Date('2024-04-01T04:00:00Z'));
+        });
+
+        it('renews annual plans on the anchor date', () => {
+            const user = { billingAnchor: new Date('2023-06-10T08:00:00Z'), billingCycle: 'annual' as const };
+
+            expect(service.getBillingPeriod(user)).toMatchObject({
+                start: new Date('2023-06-10T08:00:00Z'),
+                end: new Date('2024-06-10T08:00:00Z'),
+                index: 0
+            });
+        });
+    });
+
+    describe('resetMonthlyUsage', () => {
+        it('starts the period that contains the clock time for each due user', async () => {
+            clock.set(new Date('2024-03-01T00:00:00Z'));
+            query
+                .mockResolvedValueOnce({
+                    rows: [{ id: 'user-1', billingAnchor: new Date('2024-01-31T00:00:00Z'), billingCycle: 'monthly', timezone: null }]
+                })
+                .mockResolvedValueOnce({
+                    rows: [{
+                        id: 'user-1',
+                        previousUsageCount: 42,
+                        previousBillingPeriodStart: new Date('2024-01-31T00:00:00Z'),
+                        billingPeriodStart: new Date('2024-02-29T00:00:00Z')
+                    }]
+                });
+
+            const result = await service.resetMonthlyUsage();
+
+            expect(result).toEqual({ resetCount: 1, errors: [] });
+            expect(query.mock.calls[0][1]).toEqual([clock.now()]);
+
+            const [ids, starts, ends, now] = query.mock.calls[1][1];
+            expect(ids).toEqual(['user-1']);
+            expect(starts).toEqual([new Date('2024-02-29T00:00:00Z')]);
+            expect(ends).toEqual([new Date('2024-03-31T00:00:00Z')]);
+            expect(now).toEqual(clock.now());
+
+            expect(auditService.recordMany).toHaveBeenCalledWith([expect.objectContaining({
+                eventType: 'usage.reset',
+                targetUserId: 'user-1',
+                before: { usageCount: 42, billingPeriodStart: new Date('2024-01-31T00:00:00Z') }
+            })]);
+        });
+
+        it('does nothing when no period has ended', async () => {
+            query.mockResolvedValueOnce({ rows: [] });
+
+            await expect(service.resetMonthlyUsage('user-1')).resolves.toEqual({ resetCount: 0, errors: [] });
+            expect(query).toHaveBeenCalledTimes(1);
+            expect(query.mock.calls[0][1]).toEqual([clock.now(), 'user-1']);
+        });
+    });
+
+    describe('checkAndResetMonthlyUsage', () => {
+        const user = {
+            id: 'user-1',
+            billingAnchor: new Date('2024-01-15T00:00:00Z'),
+            billingCycle: 'monthly',
+            timezone: null,
+            billingPeriodStart: new Date('2024-02-15T00:00:00Z'),
+            currentPeriodEnd: new Date('2024-03-15T00:00:00Z')
+        };
+
+        it('leaves a period that is still running alone', async () => {
+            const reset = jest.spyOn(service, 'resetMonthlyUsage');
+            query.mockResolvedValueOnce({ rows: [user] });
+
+            await expect(service.checkAndResetMonthlyUsage('user-1')).resolves.toEqual({ wasReset: false, user });
+            expect(reset).not.toHaveBeenCalled();
+        });
+
+        it('rolls over once the clock reaches the period end', async () => {
+            clock.set(new Date('2024-03-15T00:00:00Z'));
+            const renewed = { ...user, billingPeriodStart: user.currentPeriodEnd, currentPeriodEnd: new Date('2024-04-15T00:00:00Z') };
+            const reset = jest.spyOn(service, 'resetMonthlyUsage').mockResolvedValue({ resetCount: 1, errors: [] });
+            query.mockResolvedValueOnce({ rows: [user] }).mockResolvedValueOnce({ rows: [renewed] });
+
+            await expect(service.checkAndResetMonthlyUsage('user-1')).resolves.toEqual({ wasReset: true, user: renewed });
+            expect(reset).toHaveBeenCalledWith('user-1');
+        });
+    });
+});
+
+describe('UserService.consumeUsage', () => {
+    let service: UserService;
+
+    const user = {
+        id: 'user-1',
+        usageCount: 95,
+        overageCount: 0,
+        reservedCount: 0,
+        monthlyLimit: 100,
+        subscriptionTier: 'pro'
+    };
+
+    beforeEach(() => {
+        query.mockReset();
+        service = new UserService();
+        jest.spyOn(service, 'checkAndResetMonthlyUsage').mockResolvedValue({ wasReset: false, user: user as unknown as User });
+    });
+
+    const items = [
+        { feature: 'analysis', quantity: 4, metadata: { file: 'a.csv' } },
+        { quantity: 3 }
+    ];
+
+    it('consumes every item in one statement, checked against their total', async () => {
+        query.mockResolvedValueOnce({ rows: [{ ...user, usageCount: 102, creditQuantity: 2, overageQuantity: 0 }] });
+
+        const result = await service.consumeUsage('user-1', items, 'request-1');
+
+        expect(query).toHaveBeenCalledTimes(1);
+        const [sql, [userId, quantity, requestId, , features, quantities, metadata]] = query.mock.calls[0];
+        expect(sql).toContain('FOR UPDATE');
+        expect([userId, quantity, requestId]).toEqual(['user-1', 7, 'request-1']);
+        expect(features).toEqual(['analysis', 'default']);
+        expect(quantities).toEqual([4, 3]);
+        expect(metadata).toEqual(['{"file":"a.csv"}', null]);
+
+        expect(result).toEqual({
+            user: { ...user, usageCount: 102 },
+            canIncrement: true,
+            wasReset: false,
+            creditQuantity: 2,
+            overageQuantity: 0
+        });
+    });
+
+    it('records nothing and reports the limit when the total does not fit', async () => {
+        // The guarded UPDATE matches no row, so none of the writes that hang off it happen
+        query
+            .mockResolvedValueOnce({ rows: [] })
+            .mockResolvedValueOnce({ rows: [user] });
+
+        const result = await service.consumeUsage('user-1', items, 'request-1');
+
+        expect(result).toEqual({
+            user,
+            canIncrement: false,
+            error: 'Usage limit exceeded. Current: 95, Limit: 100',
+            wasReset: false
+        });
+        expect(query).toHaveBeenCalledTimes(2);
+        expect(query.mock.calls[1]).toEqual(['SELECT * FROM users WHERE id = $1', ['user-1']]);
+
+        // Every ledger and credit write reads from the guarded UPDATE, so they are all skipped together
+        const sql: string = query.mock.calls[0][0];
+        for (const write of ['UPDATE credit_packs', 'INSERT INTO credit_transactions', 'INSERT INTO usage_events']) {
+            const [, source] = new RegExp(`${write}[\\s\\S]*?\\bFROM ([^\\n]*)`).exec(sql)!;
+            expect(source).toMatch(/\bupdated\b/);
+        }
+    });
+
+    it('mentions reserved units and exhausted overage in the limit message', async () => {
+        const capped = { ...user, usageCount: 130, reservedCount: 5, overageCount: 30 };
+        query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [capped] });
+
+        await expect(service.consumeUsage('user-1', items)).resolves.toMatchObject({
+            canIncrement: false,
+            error: 'Usage limit exceeded. Current: 130, Reserved: 5, Overage: 30 (spend cap reached), Limit: 100'
+        });
+    });
+});
+
+describe('UserService cached lookups', () => {
+    let service: UserService;
+    const user = { id: 'user-1', email: 'ada@example.com', isActive: true };
+
+    beforeEach(() => {
+        query.mockReset();
+        query.mockResolvedValue({ rows: [user] });
+        process.env.BCRYPT_ROUNDS = '4';
+        service = new UserService();
+    });
+
+    afterEach(() => {
+        delete process.env.BCRYPT_ROUNDS;
+    });
+
+    it.each<[string, (service: UserService) => Promise<unknown>]>([
+        ['a password change', service => service.updatePassword('user-1', 'N3w-password!')],
+        ['a password reset', service => service.resetPasswordWithToken('token-hash', 'N3w-password!')],
+        ['a new reset token', service => service.setPasswordResetToken('user-1', 'token-hash', new Date())],
+        ['a new verification token', service => service.setEmailVerificationToken('user-1', 'token-hash', new Date())]
+    ])('reloads the user after %s', async (_, write) => {
+        await service.findByIdCached('user-1');
+        await service.findByIdCached('user-1');
+        expect(query).toHaveBeenCalledTimes(1);
+
+        await write(service);
+        query.mockClear();
+
+        await service.findByIdCached('user-1');
+        expect(query).toHaveBeenCalledWith('SELECT * FROM users WHERE id = $1', ['user-1']);
+    });
+});
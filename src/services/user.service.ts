@@ -1,11 +1,43 @@
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import { dbService } from './database.service';
-import { User, CreateUserData, UpdateUserData } from '../models/User';
+import { auditService } from './audit.service';
+import { planService } from './plan.service';
+import { Plan } from '../models/Plan';
+import { User, CreateUserData, UpdateUserData, UserSearchFilters, BillingCycle } from '../models/User';
+import { UsageEventDetails, UsageLineItem } from '../models/UsageEvent';
+import { SubscriptionChange } from '../models/BillingEvent';
+import { addBillingCycles, BillingPeriod, getBillingPeriod } from '../utils/billing-period.util';
+import { Clock, systemClock } from '../utils/clock.util';
+
+export const DEFAULT_USAGE_FEATURE = 'default';
 
 export class UserService {
+    // Short-lived per-process cache for the per-request user lookup in authenticateAndEnsureUser
+    private userCache = new Map<string, { user: User; expiresAt: number }>();
+    private userCacheTtlMs = parseInt(process.env.USER_CACHE_TTL_MS || '30000');
+    private clock: Clock = systemClock;
+
+    setClock(clock: Clock): void {
+        this.clock = clock;
+    }
+
+    // The billing period containing the current time, optionally as if the cycle or time zone were different
+    getBillingPeriod(
+        user: Pick<User, 'billingAnchor' | 'billingCycle' | 'timezone'>,
+        overrides: { billingCycle?: BillingCycle; timezone?: string | null } = {}
+    ): BillingPeriod {
+        const timezone = overrides.timezone !== undefined ? overrides.timezone : user.timezone;
+        return getBillingPeriod(
+            new Date(user.billingAnchor),
+            overrides.billingCycle || user.billingCycle,
+            this.clock.now(),
+            timezone || undefined
+        );
+    }
+
     async createUser(userData: CreateUserData): Promise<User> {
-        const { email, password, googleId, firstName, lastName, companyName } = userData;
+        const { email, password, googleId, firstName, lastName, companyName, emailVerified } = userData;
 
         // Hash password if provided (for traditional registration)
         let hashedPassword = null;
@@ -15,18 +47,19 @@ export class UserService {
         }
 
         const userId = uuidv4();
-        const now = new Date();
+        const now = this.clock.now();
 
         // Determine subscription tier based on company name (for now, default to free)
         const subscriptionTier = companyName ? 'free' : 'free';
-        const monthlyLimit = this.getMonthlyLimit(subscriptionTier);
+        const monthlyLimit = await planService.getMonthlyLimit(subscriptionTier);
 
         const query = `
       INSERT INTO users (
         id, email, password, google_id, first_name, last_name, company_name,
         role, subscription_tier, monthly_limit, usage_count,
-        is_active, email_verified, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        is_active, email_verified, created_at, updated_at,
+        billing_anchor, billing_cycle, billing_period_start, current_period_end
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
       RETURNING *
     `;
 
@@ -43,9 +76,13 @@ export class UserService {
             monthlyLimit,
             0, // usage_count
             true, // is_active (activate user immediately)
-            true, // email_verified (for development - in production use email verification)
+            emailVerified || false, // email_verified (password registrations verify by email)
+            now,
             now,
-            now
+            now, // billing_anchor: the first period starts at sign-up
+            'monthly',
+            now,
+            addBillingCycles(now, 1, 'monthly')
         ];
 
         const result = await dbService.query<User>(query, values);
@@ -64,12 +101,73 @@ export class UserService {
         return result.rows[0] || null;
     }
 
+    // Like findById, but served from a brief cache. Writes through this service invalidate it.
+    async findByIdCached(id: string): Promise<User | null> {
+        const cached = this.userCache.get(id);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.user;
+        }
+
+        const user = await this.findById(id);
+        if (user) {
+            this.userCache.set(id, { user, expiresAt: Date.now() + this.userCacheTtlMs });
+        } else {
+            this.userCache.delete(id);
+        }
+        return user;
+    }
+
+    invalidateCachedUser(id?: string): void {
+        if (id) {
+            this.userCache.delete(id);
+        } else {
+            this.userCache.clear();
+        }
+    }
+
     async findByGoogleId(googleId: string): Promise<User | null> {
         const query = 'SELECT * FROM users WHERE google_id = $1';
         const result = await dbService.query<User>(query, [googleId]);
         return result.rows[0] || null;
     }
 
+    async findByStripeCustomerId(customerId: string): Promise<User | null> {
+        const query = 'SELECT * FROM users WHERE stripe_customer_id = $1';
+        const result = await dbService.query<User>(query, [customerId]);
+        return result.rows[0] || null;
+    }
+
+    // Apply subscription state from the billing provider. A tier change moves the user onto that plan's
+    // limit (an admin override still wins). Returns null if a newer event has already been applied.
+    async applySubscriptionChange(id: string, change: SubscriptionChange): Promise<User | null> {
+        const query = `
+      UPDATE users u
+      SET subscription_tier = p.id,
+          monthly_limit = CASE
+            WHEN $2::varchar IS NULL THEN u.monthly_limit
+            ELSE COALESCE(u.monthly_limit_override, p.monthly_limit)
+          END,
+          subscription_id = COALESCE($3, u.subscription_id),
+          subscription_status = $4,
+          subscription_synced_at = $5,
+          updated_at = NOW()
+      FROM plans p
+      WHERE u.id = $1
+      AND p.id = COALESCE($2::varchar, u.subscription_tier)
+      AND (u.subscription_synced_at IS NULL OR u.subscription_synced_at <= $5)
+      RETURNING u.*
+    `;
+        const result = await dbService.query<User>(query, [
+            id,
+            change.subscriptionTier || null,
+            change.subscriptionId || null,
+            change.subscriptionStatus,
+            change.occurredAt
+        ]);
+        this.invalidateCachedUser(id);
+        return result.rows[0] || null;
+    }
+
     async updateUser(id: string, updateData: UpdateUserData): Promise<User | null> {
         const fields: string[] = [];
         const values: any[] = [];
@@ -100,10 +198,35 @@ export class UserService {
     `;
 
         const result = await dbService.query<User>(query, values);
+        this.invalidateCachedUser(id);
         return result.rows[0] || null;
     }
 
-    async incrementUsageCount(userId: string): Promise<{ user: User | null; canIncrement: boolean; error?: string; wasReset?: boolean }> {
+    async incrementUsageCount(
+        userId: string,
+        details: UsageEventDetails = {}
+    ): ReturnType<UserService['consumeUsage']> {
+        return await this.consumeUsage(
+            userId,
+            [{ feature: details.feature, quantity: 1, metadata: details.metadata }],
+            details.requestId
+        );
+    }
+
+    // Consume several units at once, optionally split across line items. All-or-nothing: either every
+    // line item is recorded and the counter moves by their total, or nothing changes.
+    async consumeUsage(
+        userId: string,
+        items: UsageLineItem[],
+        requestId?: string
+    ): Promise<{
+        user: User | null;
+        canIncrement: boolean;
+        error?: string;
+        wasReset?: boolean;
+        creditQuantity?: number;
+        overageQuantity?: number;
+    }> {
         // First, check if user needs monthly reset
         const resetCheck = await this.checkAndResetMonthlyUsage(userId);
         let user = resetCheck.user;
@@ -112,18 +235,83 @@ export class UserService {
             return { user: null, canIncrement: false, error: 'User not found' };
         }
 
-        // Use a database transaction with row-level locking to prevent race conditions
+        const quantity = items.reduce((total, item) => total + item.quantity, 0);
+
+        // Bump the cached counter and append the ledger entries in one statement, so they can't drift apart.
+        // The row lock keeps concurrent consumers from overshooting the limit. Whatever doesn't fit in the
+        // remaining allowance (the shortfall) is paid from prepaid credit packs, soonest expiry first, and the
+        // rest is overage: allowed only on plans with overage enabled, for users in good standing, and while
+        // the period's overage stays within the spend cap. Packs are locked too, so two requests can't both
+        // spend the same credits.
         const query = `
-            UPDATE users
-            SET usage_count = usage_count + 1, updated_at = NOW()
-            WHERE id = $1
-            AND (
-                subscription_tier = 'enterprise'
-                OR usage_count < monthly_limit
+            WITH target AS (
+                SELECT id,
+                    CASE
+                        WHEN monthly_limit < 0 THEN 0
+                        ELSE GREATEST($2 - GREATEST(monthly_limit - (usage_count - overage_count - credit_usage_count) - reserved_count, 0), 0)
+                    END AS shortfall
+                FROM users
+                WHERE id = $1
+                FOR UPDATE
+            ), packs AS (
+                SELECT id, remaining, expires_at, created_at
+                FROM credit_packs
+                WHERE user_id = $1 AND remaining > 0 AND expires_at > NOW()
+                FOR UPDATE
+            ), allocation AS (
+                SELECT packs.id,
+                    LEAST(packs.remaining, GREATEST(t.shortfall - (
+                        SUM(packs.remaining) OVER (ORDER BY packs.expires_at, packs.created_at, packs.id) - packs.remaining
+                    ), 0))::integer AS quantity
+                FROM packs, target t
+            ), credit AS (
+                SELECT COALESCE(SUM(quantity), 0)::integer AS quantity FROM allocation
+            ), updated AS (
+                UPDATE users u
+                SET usage_count = u.usage_count + $2,
+                    credit_usage_count = u.credit_usage_count + c.quantity,
+                    overage_count = u.overage_count + t.shortfall - c.quantity,
+                    updated_at = NOW()
+                FROM target t, credit c, plans p
+                WHERE u.id = t.id AND p.id = u.subscription_tier
+                AND (
+                    t.shortfall = c.quantity
+                    OR (
+                        p.overage_enabled
+                        AND u.dunning_state = 'active'
+                        AND (u.overage_count + t.shortfall - c.quantity) * p.overage_unit_price_cents
+                            <= LEAST(COALESCE(u.overage_spend_cap_cents, p.overage_spend_cap_cents), p.overage_spend_cap_cents)
+                    )
+                )
+                RETURNING u.*, c.quantity AS credit_quantity, t.shortfall - c.quantity AS overage_quantity
+            ), consumed AS (
+                UPDATE credit_packs cp
+                SET remaining = cp.remaining - a.quantity, updated_at = NOW()
+                FROM allocation a, updated
+                WHERE cp.id = a.id AND a.quantity > 0
+            ), credit_ledger AS (
+                INSERT INTO credit_transactions (id, user_id, type, amount, request_id)
+                SELECT $8, id, 'consumption', -credit_quantity, $3
+                FROM updated
+                WHERE credit_quantity > 0
+            ), event AS (
+                INSERT INTO usage_events (id, user_id, feature, quantity, request_id, metadata, billing_period_start)
+                SELECT item.id, updated.id, item.feature, item.quantity, $3, item.metadata, updated.billing_period_start
+                FROM updated, UNNEST($4::varchar[], $5::varchar[], $6::integer[], $7::jsonb[]) AS item(id, feature, quantity, metadata)
             )
-            RETURNING *
+            SELECT * FROM updated
         `;
-        const result = await dbService.query<User>(query, [userId]);
+        const result = await dbService.query<User & { creditQuantity: number; overageQuantity: number }>(query, [
+            userId,
+            quantity,
+            requestId || null,
+            items.map(() => uuidv4()),
+            items.map(item => item.feature || DEFAULT_USAGE_FEATURE),
+            items.map(item => item.quantity),
+            items.map(item => item.metadata ? JSON.stringify(item.metadata) : null),
+            uuidv4()
+        ]);
+        this.invalidateCachedUser(userId);
 
         if (result.rows.length === 0) {
             // Check current user status after potential reset
@@ -132,61 +320,160 @@ export class UserService {
                 return { user: null, canIncrement: false, error: 'User not found' };
             }
 
-            if (userCheck.subscriptionTier === 'enterprise') {
-                // This shouldn't happen, but handle edge case
-                return { user: null, canIncrement: false, error: 'Enterprise user increment failed' };
-            }
-
             return {
                 user: userCheck,
                 canIncrement: false,
-                error: `Usage limit exceeded. Current: ${userCheck.usageCount}, Limit: ${userCheck.monthlyLimit}`,
+                error: this.limitExceededMessage(userCheck),
                 wasReset: resetCheck.wasReset
             };
         }
 
+        const { creditQuantity, overageQuantity, ...updatedUser } = result.rows[0];
         return {
-            user: result.rows[0],
+            user: updatedUser,
             canIncrement: true,
-            wasReset: resetCheck.wasReset
+            wasReset: resetCheck.wasReset,
+            creditQuantity,
+            overageQuantity
         };
     }
 
+    // Units held by open reservations count against the limit too, so mention them (and any overage) when there are any
+    limitExceededMessage(user: User): string {
+        const reserved = user.reservedCount > 0 ? `, Reserved: ${user.reservedCount}` : '';
+        const overage = user.overageCount > 0 ? `, Overage: ${user.overageCount} (spend cap reached)` : '';
+        return `Usage limit exceeded. Current: ${user.usageCount}${reserved}${overage}, Limit: ${user.monthlyLimit}`;
+    }
+
+    // Set the usage counter to an exact value (admin correction). The difference is written to the
+    // ledger as an "adjustment" event so the counter stays equal to the sum of the period's events.
+    // Lowering the count forgives overage above the new total, then credit-paid usage (spent credits aren't
+    // returned); raising it never adds billable overage or spends credits.
+    async setUsageCount(userId: string, usageCount: number, metadata: Record<string, unknown> = {}): Promise<User | null> {
+        const query = `
+            WITH current AS (
+                SELECT id, usage_count, billing_period_start
+                FROM users
+                WHERE id = $1
+                FOR UPDATE
+            ), updated AS (
+                UPDATE users u
+                SET usage_count = $2,
+                    overage_count = CASE WHEN u.monthly_limit < 0 THEN 0 ELSE LEAST(u.overage_count, GREATEST($2 - u.monthly_limit, 0)) END,
+                    credit_usage_count = CASE WHEN u.monthly_limit < 0 THEN 0 ELSE LEAST(
+                        u.credit_usage_count,
+                        GREATEST($2 - u.monthly_limit - LEAST(u.overage_count, GREATEST($2 - u.monthly_limit, 0)), 0)
+                    ) END,
+                    last_usage_reset = NOW(),
+                    updated_at = NOW()
+                FROM current
+                WHERE u.id = current.id
+                RETURNING u.*
+            ), event AS (
+                INSERT INTO usage_events (id, user_id, feature, quantity, metadata, billing_period_start)
+                SELECT $3, id, 'adjustment', $2 - usage_count, $4, billing_period_start
+                FROM current
+                WHERE usage_count <> $2
+            )
+            SELECT * FROM updated
+        `;
+        const result = await dbService.query<User>(query, [userId, usageCount, uuidv4(), JSON.stringify(metadata)]);
+        this.invalidateCachedUser(userId);
+        return result.rows[0] || null;
+    }
+
+    // Start a new billing period for every user whose current period has ended (or just userId, if
+    // given and due). Periods renew on the user's own anniversary, so this can run at any time of day.
     async resetMonthlyUsage(userId?: string): Promise<{ resetCount: number; errors: string[] }> {
         const result = { resetCount: 0, errors: [] as string[] };
 
         try {
-            let query: string;
-            let params: any[];
-
-            if (userId) {
-                // Reset specific user
-                query = `
-                    UPDATE users
-                    SET usage_count = 0,
-                        last_usage_reset = NOW(),
-                        billing_period_start = DATE_TRUNC('month', NOW()),
-                        updated_at = NOW()
-                    WHERE id = $1
-                    RETURNING *
-                `;
-                params = [userId];
-            } else {
-                // Reset all users whose billing period has ended
-                query = `
-                    UPDATE users
-                    SET usage_count = 0,
-                        last_usage_reset = NOW(),
-                        billing_period_start = DATE_TRUNC('month', NOW()),
-                        updated_at = NOW()
-                    WHERE billing_period_start < DATE_TRUNC('month', NOW())
-                    RETURNING *
-                `;
-                params = [];
+            const now = this.clock.now();
+            const dueQuery = `
+                SELECT id, billing_anchor, billing_cycle, timezone
+                FROM users
+                WHERE (current_period_end IS NULL OR current_period_end <= $1)
+                ${userId ? 'AND id = $2' : ''}
+            `;
+            const due = await dbService.query<Pick<User, 'id' | 'billingAnchor' | 'billingCycle' | 'timezone'>>(
+                dueQuery,
+                userId ? [now, userId] : [now]
+            );
+
+            if (due.rows.length === 0) {
+                return result;
             }
 
-            const dbResult = await dbService.query<User>(query, params);
+            const periods = due.rows.map(user =>
+                getBillingPeriod(new Date(user.billingAnchor), user.billingCycle, now, user.timezone || undefined)
+            );
+
+            // Lock the rows first so the previous usage can be returned for the audit log. The period check is
+            // repeated under the lock so two concurrent rollovers can't both reset the same user.
+            // Overage from the closed period is queued in overage_reports for the billing provider.
+            const query = `
+                WITH next AS (
+                    SELECT * FROM UNNEST($1::varchar[], $2::timestamp[], $3::timestamp[], $5::varchar[])
+                        AS n(id, period_start, period_end, report_id)
+                ), previous AS (
+                    SELECT u.id, u.usage_count, u.overage_count, u.billing_period_start, u.current_period_end,
+                        u.subscription_tier, u.subscription_id
+                    FROM users u
+                    JOIN next ON next.id = u.id
+                    WHERE u.current_period_end IS NULL OR u.current_period_end <= $4
+                    FOR UPDATE OF u
+                ), reset AS (
+                    UPDATE users u
+                    SET usage_count = 0,
+                        overage_count = 0,
+                        credit_usage_count = 0,
+                        last_usage_reset = $4,
+                        billing_period_start = next.period_start,
+                        current_period_end = next.period_end,
+                        updated_at = $4
+                    FROM previous
+                    JOIN next ON next.id = previous.id
+                    WHERE u.id = previous.id
+                    RETURNING u.id,
+                        previous.usage_count AS previous_usage_count,
+                        previous.billing_period_start AS previous_billing_period_start,
+                        u.billing_period_start
+                ), overage AS (
+                    INSERT INTO overage_reports (
+                        id, user_id, plan_id, subscription_id, period_start, period_end, quantity, unit_price_cents
+                    )
+                    SELECT next.report_id, previous.id, p.id, previous.subscription_id, previous.billing_period_start,
+                        COALESCE(previous.current_period_end, $4), previous.overage_count, p.overage_unit_price_cents
+                    FROM previous
+                    JOIN next ON next.id = previous.id
+                    JOIN plans p ON p.id = previous.subscription_tier
+                    WHERE previous.overage_count > 0
+                )
+                SELECT * FROM reset
+            `;
+
+            const dbResult = await dbService.query<{
+                id: string;
+                previousUsageCount: number;
+                previousBillingPeriodStart: Date;
+                billingPeriodStart: Date;
+            }>(query, [
+                due.rows.map(user => user.id),
+                periods.map(period => period.start),
+                periods.map(period => period.end),
+                now,
+                due.rows.map(() => uuidv4())
+            ]);
             result.resetCount = dbResult.rows.length;
+            this.invalidateCachedUser(userId);
+
+            await auditService.recordMany(dbResult.rows.map(row => ({
+                eventType: 'usage.reset' as const,
+                targetUserId: row.id,
+                before: { usageCount: row.previousUsageCount, billingPeriodStart: row.previousBillingPeriodStart },
+                after: { usageCount: 0, billingPeriodStart: row.billingPeriodStart },
+                metadata: { trigger: 'billing_period_rollover' }
+            })));
 
             if (result.resetCount > 0) {
                 console.log(`✅ Reset usage for ${result.resetCount} user(s)`);
@@ -201,7 +488,7 @@ export class UserService {
         return result;
     }
 
-    // Check if user needs monthly reset
+    // Check if the user's billing period has ended, and roll it over if so
     async checkAndResetMonthlyUsage(userId: string): Promise<{ wasReset: boolean; user: User | null }> {
         try {
             const user = await this.findById(userId);
@@ -209,16 +496,7 @@ export class UserService {
                 return { wasReset: false, user: null };
             }
 
-            // Check if current date is in a new month compared to billing_period_start
-            const currentMonth = new Date();
-            currentMonth.setDate(1); // First day of current month
-            currentMonth.setHours(0, 0, 0, 0);
-
-            const lastResetMonth = new Date(user.billingPeriodStart);
-            lastResetMonth.setDate(1);
-            lastResetMonth.setHours(0, 0, 0, 0);
-
-            if (currentMonth > lastResetMonth) {
+            if (!user.currentPeriodEnd || new Date(user.currentPeriodEnd) <= this.clock.now()) {
                 // Reset usage for this user
                 const resetResult = await this.resetMonthlyUsage(userId);
                 if (resetResult.resetCount > 0) {
@@ -245,29 +523,104 @@ export class UserService {
 
         const query = `
       UPDATE users
-      SET password = $1, updated_at = NOW()
+      SET password = $1, password_changed_at = NOW(), updated_at = NOW()
       WHERE id = $2
     `;
         await dbService.query(query, [hashedPassword, id]);
+        this.invalidateCachedUser(id);
+    }
+
+    async setEmailVerificationToken(id: string, tokenHash: string, expires: Date): Promise<void> {
+        const query = `
+      UPDATE users
+      SET email_verification_token = $1, email_verification_expires = $2, updated_at = NOW()
+      WHERE id = $3
+    `;
+        await dbService.query(query, [tokenHash, expires, id]);
+        this.invalidateCachedUser(id);
+    }
+
+    // Mark the email verified and clear the token in one statement. Returns null if the token is unknown or expired.
+    async verifyEmailWithToken(tokenHash: string): Promise<User | null> {
+        const query = `
+      UPDATE users
+      SET email_verified = true,
+          email_verification_token = NULL,
+          email_verification_expires = NULL,
+          updated_at = NOW()
+      WHERE email_verification_token = $1
+      AND email_verification_expires > NOW()
+      RETURNING *
+    `;
+        const result = await dbService.query<User>(query, [tokenHash]);
+        if (result.rows[0]) {
+            this.invalidateCachedUser(result.rows[0].id);
+        }
+        return result.rows[0] || null;
+    }
+
+    async setPasswordResetToken(id: string, tokenHash: string, expires: Date): Promise<void> {
+        const query = `
+      UPDATE users
+      SET password_reset_token = $1, password_reset_expires = $2, updated_at = NOW()
+      WHERE id = $3
+    `;
+        await dbService.query(query, [tokenHash, expires, id]);
+        this.invalidateCachedUser(id);
+    }
+
+    // Set a new password using a reset token. The token is cleared in the same statement,
+    // so it can only ever be used once. Returns null if the token is unknown or expired.
+    async resetPasswordWithToken(tokenHash: string, newPassword: string): Promise<User | null> {
+        const saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+        const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+        const query = `
+      UPDATE users
+      SET password = $1,
+          password_reset_token = NULL,
+          password_reset_expires = NULL,
+          password_changed_at = NOW(),
+          updated_at = NOW()
+      WHERE password_reset_token = $2
+      AND password_reset_expires > NOW()
+      AND is_active = true
+      RETURNING *
+    `;
+        const result = await dbService.query<User>(query, [hashedPassword, tokenHash]);
+        if (result.rows[0]) {
+            this.invalidateCachedUser(result.rows[0].id);
+        }
+        return result.rows[0] || null;
     }
 
-    async deactivateUser(id: string): Promise<void> {
+    async deactivateUser(id: string, actorId: string): Promise<void> {
         const query = `
       UPDATE users
-      SET is_active = false, updated_at = NOW()
+      SET is_active = false, deactivated_at = NOW(), deactivated_by = $2, updated_at = NOW()
       WHERE id = $1
     `;
-        await dbService.query(query, [id]);
+        await dbService.query(query, [id, actorId]);
+        this.invalidateCachedUser(id);
     }
 
-    private getMonthlyLimit(tier: string): number {
-        const limits = {
-            free: 5,
-            pro: 100,
-            business: 1000,
-            enterprise: -1 // unlimited
-        };
-        return limits[tier as keyof typeof limits] || 5;
+    // Bring users on a plan up to date after the plan's limit changed. Accounts with an admin override keep it,
+    // and accounts in dunning get the new limit when their payment recovers.
+    async syncMonthlyLimits(plan: Plan): Promise<number> {
+        const query = `
+      UPDATE users
+      SET monthly_limit = $2, updated_at = NOW()
+      WHERE subscription_tier = $1
+      AND monthly_limit_override IS NULL
+      AND dunning_state IN ('active', 'canceled')
+      AND monthly_limit <> $2
+    `;
+        const result = await dbService.query(query, [plan.id, plan.monthlyLimit]);
+
+        if ((result.rowCount || 0) > 0) {
+            this.invalidateCachedUser();
+        }
+        return result.rowCount || 0;
     }
 
     // Get all users (admin function)
@@ -282,6 +635,46 @@ export class UserService {
         return result.rows;
     }
 
+    // Search users with optional filters (admin function)
+    async searchUsers(filters: UserSearchFilters): Promise<{ users: User[]; total: number }> {
+        const conditions: string[] = [];
+        const values: any[] = [];
+
+        if (filters.search) {
+            values.push(`%${filters.search}%`);
+            conditions.push(`(email ILIKE $${values.length} OR first_name ILIKE $${values.length} OR last_name ILIKE $${values.length} OR company_name ILIKE $${values.length})`);
+        }
+        if (filters.role) {
+            values.push(filters.role);
+            conditions.push(`role = $${values.length}`);
+        }
+        if (filters.subscriptionTier) {
+            values.push(filters.subscriptionTier);
+            conditions.push(`subscription_tier = $${values.length}`);
+        }
+        if (filters.isActive !== undefined) {
+            values.push(filters.isActive);
+            conditions.push(`is_active = $${values.length}`);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const countResult = await dbService.query<{ total: string }>(`SELECT COUNT(*) AS total FROM users ${where}`, values);
+
+        const query = `
+      SELECT * FROM users
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+        const result = await dbService.query<User>(query, [...values, filters.limit, filters.offset]);
+
+        return {
+            users: result.rows,
+            total: parseInt(countResult.rows[0].total)
+        };
+    }
+
     // Get user statistics
     async getUserStats(userId: string): Promise<any> {
         const query = `
@@ -0,0 +1,125 @@
+import { addBillingCycles, getBillingPeriod, isValidTimeZone } from './billing-period.util';
+import { BillingCycle } from '../models/User';
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('addBillingCycles', () => {
+    describe('monthly anchors late in the month', () => {
+        it.each([
+            // anchor, leap year February, then March
+            ['2024-01-29', '2024-02-29', '2024-03-29'],
+            ['2024-01-30', '2024-02-29', '2024-03-30'],
+            ['2024-01-31', '2024-02-29', '2024-03-31'],
+            ['2023-01-29', '2023-02-28', '2023-03-29'],
+            ['2023-01-30', '2023-02-28', '2023-03-30'],
+            ['2023-01-31', '2023-02-28', '2023-03-31']
+        ])('keeps %s on its own day after clamping to February', (anchor, february, march) => {
+            expect(addBillingCycles(utc(anchor), 1, 'monthly')).toEqual(utc(february));
+            expect(addBillingCycles(utc(anchor), 2, 'monthly')).toEqual(utc(march));
+        });
+
+        it('clamps the 31st to the last day of 30-day months', () => {
+            const anchor = utc('2023-03-31');
+
+            expect(addBillingCycles(anchor, 1, 'monthly')).toEqual(utc('2023-04-30'));
+            expect(addBillingCycles(anchor, 2, 'monthly')).toEqual(utc('2023-05-31'));
+            expect(addBillingCycles(anchor, 3, 'monthly')).toEqual(utc('2023-06-30'));
+        });
+
+        it('crosses year boundaries in both directions', () => {
+            const anchor = utc('2023-11-30');
+
+            expect(addBillingCycles(anchor, 3, 'monthly')).toEqual(utc('2024-02-29'));
+            expect(addBillingCycles(anchor, -9, 'monthly')).toEqual(utc('2023-02-28'));
+            expect(addBillingCycles(anchor, -12, 'monthly')).toEqual(utc('2022-11-30'));
+        });
+    });
+
+    describe('annual', () => {
+        it('renews a leap day on Feb 28 and returns to Feb 29 in the next leap year', () => {
+            const anchor = utc('2024-02-29');
+
+            expect(addBillingCycles(anchor, 1, 'annual')).toEqual(utc('2025-02-28'));
+            expect(addBillingCycles(anchor, 3, 'annual')).toEqual(utc('2027-02-28'));
+            expect(addBillingCycles(anchor, 4, 'annual')).toEqual(utc('2028-02-29'));
+            expect(addBillingCycles(anchor, -1, 'annual')).toEqual(utc('2023-02-28'));
+        });
+
+        it.each(['2023-01-29', '2023-01-30', '2023-01-31'])('keeps %s on the same date every year', anchor => {
+            expect(addBillingCycles(utc(anchor), 1, 'annual')).toEqual(utc(anchor.replace('2023', '2024')));
+        });
+    });
+
+    it('keeps the anchor time of day', () => {
+        expect(addBillingCycles(new Date('2024-01-31T17:45:12.345Z'), 1, 'monthly'))
+            .toEqual(new Date('2024-02-29T17:45:12.345Z'));
+    });
+
+    it('keeps the wall-clock time in the account time zone across DST', () => {
+        // 00:30 in Berlin is 23:30 UTC the day before in winter (CET) and 22:30 UTC in summer (CEST)
+        const anchor = new Date('2024-01-30T23:30:00Z');
+
+        expect(addBillingCycles(anchor, 1, 'monthly', 'Europe/Berlin')).toEqual(new Date('2024-02-28T23:30:00Z'));
+        expect(addBillingCycles(anchor, 3, 'monthly', 'Europe/Berlin')).toEqual(new Date('2024-04-29T22:30:00Z'));
+    });
+});
+
+describe('getBillingPeriod', () => {
+    const cycles: Array<[BillingCycle, string, string, string, string]> = [
+        // cycle, anchor, an instant in the second period, and that period's start and end
+        ['monthly', '2024-01-31', '2024-03-15', '2024-02-29', '2024-03-31'],
+        ['annual', '2024-02-29', '2025-06-01', '2025-02-28', '2026-02-28']
+    ];
+
+    it.each(cycles)('finds the %s period containing an instant', (cycle, anchor, at, start, end) => {
+        expect(getBillingPeriod(utc(anchor), cycle, utc(at))).toEqual({
+            start: utc(start),
+            end: utc(end),
+            index: 1
+        });
+    });
+
+    it.each<BillingCycle>(['monthly', 'annual'])('starts the next %s period exactly at its boundary', cycle => {
+        const anchor = utc('2023-01-31');
+        const boundary = addBillingCycles(anchor, 2, cycle);
+
+        expect(getBillingPeriod(anchor, cycle, new Date(boundary.getTime() - 1)).index).toBe(1);
+        expect(getBillingPeriod(anchor, cycle, boundary)).toEqual({
+            start: boundary,
+            end: addBillingCycles(anchor, 3, cycle),
+            index: 2
+        });
+    });
+
+    it('walks through February without skipping or repeating a period', () => {
+        const anchor = utc('2023-01-30');
+        const starts = ['2023-02-28', '2023-03-01', '2023-03-29', '2023-03-30'].map(day => getBillingPeriod(anchor, 'monthly', utc(day)).start);
+
+        expect(starts).toEqual([utc('2023-02-28'), utc('2023-02-28'), utc('2023-02-28'), utc('2023-03-30')]);
+    });
+
+    it('counts periods before the anchor with negative indexes', () => {
+        expect(getBillingPeriod(utc('2024-03-31'), 'monthly', utc('2024-03-01'))).toEqual({
+            start: utc('2024-02-29'),
+            end: utc('2024-03-31'),
+            index: -1
+        });
+    });
+
+    it('uses the account time zone for the boundary', () => {
+        // Midnight on the 1st in Tokyo is 15:00 UTC on the last day of the previous month
+        const anchor = new Date('2024-01-31T15:00:00Z');
+
+        expect(getBillingPeriod(anchor, 'monthly', new Date('2024-02-29T14:59:59Z'), 'Asia/Tokyo').start).toEqual(anchor);
+        expect(getBillingPeriod(anchor, 'monthly', new Date('2024-02-29T15:00:00Z'), 'Asia/Tokyo').start)
+            .toEqual(new Date('2024-02-29T15:00:00Z'));
+    });
+});
+
+describe('isValidTimeZone', () => {
+    it('accepts IANA zones and rejects anything else', () => {
+        expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+        expect(isValidTimeZone('UTC')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+});
@@ -0,0 +1,150 @@
+import { BillingCycle } from '../models/User';
+
+const CYCLE_MONTHS: Record<BillingCycle, number> = {
+    monthly: 1,
+    annual: 12
+};
+
+// Period boundaries are computed in UTC unless the account has its own time zone
+export const DEFAULT_BILLING_TIME_ZONE = 'UTC';
+
+export interface BillingPeriod {
+    start: Date;
+    end: Date;
+    index: number; // Whole cycles between the anchor and start
+}
+
+interface WallClock {
+    year: number;
+    month: number; // 0-11
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// The wall-clock reading in timeZone at the given instant
+const toWallClock = (date: Date, timeZone: string): WallClock => {
+    if (timeZone === 'UTC') {
+        return {
+            year: date.getUTCFullYear(),
+            month: date.getUTCMonth(),
+            day: date.getUTCDate(),
+            hour: date.getUTCHours(),
+            minute: date.getUTCMinutes(),
+            second: date.getUTCSeconds(),
+            millisecond: date.getUTCMilliseconds()
+        };
+    }
+
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        if (part.type !== 'literal') {
+            parts[part.type] = parseInt(part.value);
+        }
+    }
+
+    return {
+        year: parts.year,
+        month: parts.month - 1,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second,
+        millisecond: date.getUTCMilliseconds()
+    };
+};
+
+const wallClockAsUtc = (wall: WallClock): number =>
+    Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+
+// The instant at which timeZone's clock reads `wall`. Times skipped by a DST change resolve to just after it.
+const fromWallClock = (wall: WallClock, timeZone: string): Date => {
+    const target = wallClockAsUtc(wall);
+    if (timeZone === 'UTC') {
+        return new Date(target);
+    }
+
+    // Guess with the offset at the target, then correct once in case the offset differs at the result
+    let instant = target - (wallClockAsUtc(toWallClock(new Date(target), timeZone)) - target);
+    instant += target - wallClockAsUtc(toWallClock(new Date(instant), timeZone));
+    return new Date(instant);
+};
+
+/**
+ * The anchor moved by a whole number of cycles, keeping its wall-clock time in timeZone.
+ * The anchor's day of month is kept when the target month has it and clamped to the last day otherwise,
+ * and every boundary is computed from the anchor itself, so an anchor on Jan 31 renews on Feb 28/29 and
+ * then on Mar 31 again (not Mar 28).
+ */
+export const addBillingCycles = (
+    anchor: Date,
+    cycles: number,
+    cycle: BillingCycle,
+    timeZone: string = DEFAULT_BILLING_TIME_ZONE
+): Date => {
+    const wall = toWallClock(anchor, timeZone);
+    const months = wall.month + cycles * CYCLE_MONTHS[cycle];
+    const year = wall.year + Math.floor(months / 12);
+    const month = ((months % 12) + 12) % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return fromWallClock({ ...wall, year, month, day: Math.min(wall.day, daysInMonth) }, timeZone);
+};
+
+// The billing period (start inclusive, end exclusive) that contains `at`
+export const getBillingPeriod = (
+    anchor: Date,
+    cycle: BillingCycle,
+    at: Date,
+    timeZone: string = DEFAULT_BILLING_TIME_ZONE
+): BillingPeriod => {
+    const anchorWall = toWallClock(anchor, timeZone);
+    const atWall = toWallClock(at, timeZone);
+    const monthsElapsed = (atWall.year - anchorWall.year) * 12 + atWall.month - anchorWall.month;
+    let index = Math.floor(monthsElapsed / CYCLE_MONTHS[cycle]);
+
+    // The month count ignores day and time of day, so the estimate can be one cycle off either way
+    while (addBillingCycles(anchor, index, cycle, timeZone) > at) {
+        index--;
+    }
+    while (addBillingCycles(anchor, index + 1, cycle, timeZone) <= at) {
+        index++;
+    }
+
+    return {
+        start: addBillingCycles(anchor, index, cycle, timeZone),
+        end: addBillingCycles(anchor, index + 1, cycle, timeZone),
+        index
+    };
+};
@@ -0,0 +1,29 @@
+// Source of "now" for period math. Services take a Clock so tests can step across month boundaries.
+export interface Clock {
+    now(): Date;
+}
+
+export const systemClock: Clock = {
+    now: () => new Date()
+};
+
+// Only moves when told to; for tests and simulations
+export class FixedClock implements Clock {
+    private current: Date;
+
+    constructor(start: Date = new Date()) {
+        this.current = new Date(start);
+    }
+
+    now(): Date {
+        return new Date(this.current);
+    }
+
+    set(date: Date): void {
+        this.current = new Date(date);
+    }
+
+    advance(ms: number): void {
+        this.current = new Date(this.current.getTime() + ms);
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Minimal 5-field cron expressions, evaluated in UTC:
+ *   minute hour day-of-month month day-of-week
+ * Each field takes *, a number, a range (1-5), a list (1,15) and steps (*\/15, 0-30/10).
+ * Day of week is 0-7 with both 0 and 7 meaning Sunday. As in classic cron, when both day fields
+ * are restricted a day matches if either does.
+ */
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>; // 1-12
+    daysOfWeek: Set<number>; // 0-6
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Roughly five years of jumps; an expression that never matches (e.g. Feb 30) gives up here
+const MAX_ITERATIONS = 100000;
+
+const parseField = (field: string, min: number, max: number, expression: string): Set<number> => {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText !== undefined ? parseInt(stepText) : 1;
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            [start, end] = range.split('-').map(value => parseInt(value));
+        } else {
+            start = parseInt(range);
+            end = stepText !== undefined ? max : start;
+        }
+
+        if ([start, end, step].some(Number.isNaN) || start < min || end > max || start > end || step < 1) {
+            throw new Error(`Invalid cron expression "${expression}"`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}"`);
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    const daysOfWeek = new Set([...parseField(dayOfWeek, 0, 7, expression)].map(day => day % 7));
+
+    return {
+        expression,
+        minutes: parseField(minute, 0, 59, expression),
+        hours: parseField(hour, 0, 23, expression),
+        daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+        months: parseField(month, 1, 12, expression),
+        daysOfWeek,
+        dayOfMonthRestricted: dayOfMonth !== '*',
+        dayOfWeekRestricted: dayOfWeek !== '*'
+    };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+};
+
+// The first time strictly after `after` that the schedule fires
+export const nextCronRun = (schedule: CronSchedule | string, after: Date): Date => {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+    const next = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+    // Jump a whole month/day/hour at a time when that field doesn't match
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (!cron.months.has(next.getUTCMonth() + 1)) {
+            next.setUTCMonth(next.getUTCMonth() + 1, 1);
+            next.setUTCHours(0, 0, 0, 0);
+        } else if (!matchesDay(cron, next)) {
+            next.setUTCDate(next.getUTCDate() + 1);
+            next.setUTCHours(0, 0, 0, 0);
+        } else if (!cron.hours.has(next.getUTCHours())) {
+            next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+        } else if (!cron.minutes.has(next.getUTCMinutes())) {
+            next.setTime(next.getTime() + MINUTE_MS);
+        } else {
+            return next;
+        }
+    }
+
+    throw new Error(`Cron expression "${cron.expression}" never matches`);
+};
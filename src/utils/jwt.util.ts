@@ -0,0 +1,43 @@
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import { TokenConfig } from '../config/auth';
+
+// Sign with the active (first) key and record its id in the `kid` header
+export const signToken = (payload: object, config: TokenConfig, options: SignOptions = {}): string => {
+    const [signingKey] = config.keys;
+
+    return jwt.sign(payload, signingKey.secret, {
+        expiresIn: config.expiresIn as SignOptions['expiresIn'],
+        ...options,
+        algorithm: 'HS256',
+        keyid: signingKey.kid
+    });
+};
+
+// Verify against the key named by `kid`. Tokens issued before key ids existed carry none,
+// so those are tried against every configured key.
+export const verifyToken = <T extends object>(token: string, config: TokenConfig): T & JwtPayload => {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+        throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const kid = decoded.header.kid;
+    const candidates = kid ? config.keys.filter(key => key.kid === kid) : config.keys;
+    if (candidates.length === 0) {
+        throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    let lastError: unknown;
+    for (const key of candidates) {
+        try {
+            return jwt.verify(token, key.secret, { algorithms: ['HS256'] }) as T & JwtPayload;
+        } catch (error) {
+            // An expired token is expired whichever key signed it
+            if (error instanceof jwt.TokenExpiredError) {
+                throw error;
+            }
+            lastError = error;
+        }
+    }
+    throw lastError;
+};
@@ -0,0 +1,25 @@
+import { Request } from 'express';
+import { SessionContext } from '../models/RefreshToken';
+
+/**
+ * Express "trust proxy" setting from TRUST_PROXY, so req.ip is the client rather than the reverse proxy:
+ *   TRUST_PROXY=1                        (number of proxy hops in front of the app)
+ *   TRUST_PROXY=loopback,10.0.0.0/8      (addresses or subnets of trusted proxies)
+ *   TRUST_PROXY=true                     (trust every hop; only when nothing can reach the app directly)
+ * Unset or "false" trusts no proxy.
+ */
+export const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+    if (!value || value === 'false') {
+        return false;
+    }
+    if (value === 'true') {
+        return true;
+    }
+    return /^\d+$/.test(value) ? parseInt(value) : value;
+};
+
+// Client details recorded against sessions and audit events for this request
+export const sessionContext = (req: Request): SessionContext => ({
+    userAgent: req.get('User-Agent'),
+    ipAddress: req.ip
+});
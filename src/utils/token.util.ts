@@ -0,0 +1,9 @@
+import crypto from 'crypto';
+
+// Generate a random, URL-safe token to hand to the user (e.g. in an emailed link)
+export const generateToken = (bytes: number = 32): string =>
+    crypto.randomBytes(bytes).toString('hex');
+
+// Only the SHA-256 digest of a token is stored, so a database leak doesn't expose usable tokens
+export const hashToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,31 @@
+const BROWSERS: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux']
+];
+
+// Turn a User-Agent header into a short label such as "Chrome on macOS" for the sessions list
+export const describeDevice = (userAgent?: string): string => {
+    if (!userAgent) {
+        return 'Unknown device';
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    if (browser || platform) return (browser || platform)!;
+
+    return 'Unknown device';
+};
@@ -0,0 +1,273 @@
+import {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError
+} from './index.validation';
+
+import { body, param, query } from 'express-validator';
+
+const SUBSCRIPTION_TIERS = ['free', 'pro', 'business', 'enterprise'];
+
+export const userIdValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('User id must be a valid UUID')
+];
+
+export const listUsersValidation = [
+    query('search')
+        .optional()
+        .trim()
+        .isLength({ max: 255 })
+        .withMessage('Search must be less than 255 characters'),
+    query('role')
+        .optional()
+        .isIn(['user', 'admin'])
+        .withMessage('Role must be user or admin'),
+    query('subscriptionTier')
+        .optional()
+        .isIn(SUBSCRIPTION_TIERS)
+        .withMessage(`Subscription tier must be one of: ${SUBSCRIPTION_TIERS.join(', ')}`),
+    query('isActive')
+        .optional()
+        .isBoolean()
+        .withMessage('isActive must be true or false'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+export const updateSubscriptionValidation = [
+    ...userIdValidation,
+    body('subscriptionTier')
+        .optional()
+        .isIn(SUBSCRIPTION_TIERS)
+        .withMessage(`Subscription tier must be one of: ${SUBSCRIPTION_TIERS.join(', ')}`),
+    body('monthlyLimit')
+        .optional()
+        .isInt({ min: -1 })
+        .withMessage('Monthly limit must be an integer (-1 for unlimited)'),
+    body('billingCycle')
+        .optional()
+        .isIn(['monthly', 'annual'])
+        .withMessage('Billing cycle must be monthly or annual'),
+    body()
+        .custom(value => value.subscriptionTier !== undefined || value.monthlyLimit !== undefined || value.billingCycle !== undefined)
+        .withMessage('Provide subscriptionTier, monthlyLimit and/or billingCycle')
+];
+
+export const resetUsageValidation = [
+    ...userIdValidation,
+    body('usageCount')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Usage count must be a non-negative integer')
+];
+
+export const listAuditEventsValidation = [
+    query('eventType')
+        .optional()
+        .isString()
+        .isLength({ max: 50 })
+        .withMessage('Event type must be less than 50 characters'),
+    query('actorId')
+        .optional()
+        .isUUID()
+        .withMessage('Actor id must be a valid UUID'),
+    query('targetUserId')
+        .optional()
+        .isUUID()
+        .withMessage('Target user id must be a valid UUID'),
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be an ISO 8601 date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be an ISO 8601 date'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Limit must be between 1 and 200')
+];
+
+export const updatePlanValidation = [
+    param('id')
+        .isIn(SUBSCRIPTION_TIERS)
+        .withMessage(`Plan must be one of: ${SUBSCRIPTION_TIERS.join(', ')}`),
+    body('name')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 100 })
+        .withMessage('Name must be between 1 and 100 characters'),
+    body('monthlyLimit')
+        .optional()
+        .isInt({ min: -1 })
+        .withMessage('Monthly limit must be an integer (-1 for unlimited)'),
+    body('features')
+        .optional()
+        .isArray({ max: 50 })
+        .withMessage('Features must be an array of at most 50 entries'),
+    body('features.*')
+        .isString()
+        .matches(/^[a-z0-9_]{1,50}$/)
+        .withMessage('Each feature must be a lowercase identifier of up to 50 characters'),
+    body('usageRateLimit')
+        .optional({ values: 'undefined' })
+        .custom(value => value === null || (Number.isInteger(value) && value > 0))
+        .withMessage('Usage rate limit must be a positive integer, or null for no limit'),
+    body('overageEnabled')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('overageEnabled must be true or false'),
+    body('overageUnitPriceCents')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Overage unit price must be a non-negative integer (cents)'),
+    body('stripePriceId')
+        .optional({ values: 'undefined' })
+        .custom(value => value === null || (typeof value === 'string' && /^price_[A-Za-z0-9_]{1,200}$/.test(value)))
+        .withMessage('Stripe price id must look like price_..., or null to disable checkout'),
+    body('overageSpendCapCents')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Overage spend cap must be a non-negative integer (cents)'),
+    body('stripeOveragePriceId')
+        .optional({ values: 'undefined' })
+        .custom(value => value === null || (typeof value === 'string' && /^price_[A-Za-z0-9_]{1,200}$/.test(value)))
+        .withMessage('Stripe overage price id must look like price_..., or null'),
+    body()
+        .custom(value => [
+            'name', 'monthlyLimit', 'features', 'usageRateLimit', 'overageEnabled', 'overageUnitPriceCents',
+            'overageSpendCapCents', 'stripePriceId', 'stripeOveragePriceId'
+        ].some(field => value[field] !== undefined))
+        .withMessage('Provide at least one plan field to update')
+];
+
+export const listOrganizationsValidation = [
+    query('search')
+        .optional()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Search must be less than 100 characters'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+export const updateOrganizationSubscriptionValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Organization id must be a valid UUID'),
+    body('subscriptionTier')
+        .optional()
+        .isIn(SUBSCRIPTION_TIERS)
+        .withMessage(`Subscription tier must be one of: ${SUBSCRIPTION_TIERS.join(', ')}`),
+    body('monthlyLimit')
+        .optional()
+        .isInt({ min: -1 })
+        .withMessage('Monthly limit must be an integer (-1 for unlimited)'),
+    body()
+        .custom(value => value.subscriptionTier !== undefined || value.monthlyLimit !== undefined)
+        .withMessage('Provide subscriptionTier and/or monthlyLimit')
+];
+
+const CREDIT_TRANSACTION_TYPES = ['grant', 'purchase', 'consumption', 'expiry', 'refund'];
+const MAX_CREDIT_GRANT = 10000000;
+
+export const grantCreditsValidation = [
+    ...userIdValidation,
+    body('quantity')
+        .isInt({ min: 1, max: MAX_CREDIT_GRANT })
+        .withMessage(`Quantity must be an integer between 1 and ${MAX_CREDIT_GRANT}`),
+    body('source')
+        .optional()
+        .isIn(['grant', 'purchase'])
+        .withMessage('Source must be grant or purchase'),
+    body('expiresAt')
+        .optional()
+        .isISO8601()
+        .withMessage('Expiry must be an ISO 8601 date')
+        .bail()
+        .custom(value => new Date(value).getTime() > Date.now())
+        .withMessage('Expiry must be in the future'),
+    body('reference')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 255 })
+        .withMessage('Reference must be between 1 and 255 characters'),
+    body('reason')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage('Reason must be less than 500 characters')
+];
+
+export const refundCreditsValidation = [
+    ...userIdValidation,
+    param('packId')
+        .isUUID()
+        .withMessage('Credit pack id must be a valid UUID'),
+    body('reason')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage('Reason must be less than 500 characters')
+];
+
+export const listCreditTransactionsValidation = [
+    ...userIdValidation,
+    query('type')
+        .optional()
+        .isIn(CREDIT_TRANSACTION_TYPES)
+        .withMessage(`Type must be one of: ${CREDIT_TRANSACTION_TYPES.join(', ')}`),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Limit must be between 1 and 200')
+];
+
+export const jobNameValidation = [
+    param('name')
+        .matches(/^[a-z0-9-]{1,100}$/)
+        .withMessage('Invalid job name')
+];
+
+export {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError
+};
@@ -3,11 +3,13 @@ import {
     created,
     badRequest,
     unauthorized,
+    forbidden,
     notFound,
     serverError
 } from './index.validation';
 
 import { body } from 'express-validator';
+import { isValidTimeZone } from '../utils/billing-period.util';
 
 export const registerValidation = [
     body('email')
@@ -42,11 +44,20 @@ export const loginValidation = [
         .withMessage('Password is required')
 ];
 
+export const updateProfileValidation = [
+    body('timezone')
+        .optional({ values: 'null' })
+        .isString()
+        .custom(value => isValidTimeZone(value))
+        .withMessage('Timezone must be an IANA time zone such as Europe/Berlin (or null for UTC)')
+];
+
 export {
     ok,
     created,
     badRequest,
     unauthorized,
+    forbidden,
     notFound,
     serverError
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+import {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError
+} from './index.validation';
+
+import { body } from 'express-validator';
+import { CHECKOUT_PLANS } from '../services/billing.service';
+
+export const checkoutSessionValidation = [
+    body('subscriptionTier')
+        .isIn(CHECKOUT_PLANS)
+        .withMessage(`Subscription tier must be one of: ${CHECKOUT_PLANS.join(', ')}`)
+];
+
+export {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError
+};
@@ -0,0 +1,41 @@
+import { Response } from 'express';
+import { badRequest, conflict } from './index.validation';
+
+const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+};
+
+describe('badRequest', () => {
+    it('takes the message and code in the same order as the other helpers', () => {
+        const res = response();
+
+        badRequest(res as unknown as Response, 'Plan is not available for checkout', 'PLAN_NOT_AVAILABLE');
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({
+            success: false,
+            error: { message: 'Plan is not available for checkout', code: 'PLAN_NOT_AVAILABLE' }
+        });
+
+        const conflictRes = response();
+        conflict(conflictRes as unknown as Response, 'Subscription already active', 'SUBSCRIPTION_EXISTS');
+        expect(Object.keys(conflictRes.json.mock.calls[0][0].error)).toEqual(Object.keys(res.json.mock.calls[0][0].error));
+    });
+
+    it('leaves the code out when there is none', () => {
+        const res = response();
+
+        badRequest(res as unknown as Response, 'Refresh token is required');
+        expect(res.json).toHaveBeenCalledWith({ success: false, error: { message: 'Refresh token is required' } });
+    });
+
+    it('returns validation errors as details', () => {
+        const res = response();
+        const errors = [{ type: 'field', path: 'email', msg: 'Invalid email' }];
+
+        badRequest(res as unknown as Response, errors);
+        expect(res.json).toHaveBeenCalledWith({ success: false, error: { message: 'Bad request', details: errors } });
+    });
+});
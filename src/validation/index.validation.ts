@@ -5,14 +5,26 @@ export const ok = (res: Response, data?: unknown) => res.json({ success: true, .
 export const created = (res: Response, data?: unknown, message?: string) =>
     res.status(201).json({ success: true, ...(message ? { message } : {}), ...(data ? { data } : {}) });
 
-export const badRequest = (res: Response, error: unknown, message = 'Bad request') =>
-    res.status(400).json({ success: false, error: { message, details: error } });
+// A string is the message; anything else (e.g. errors.array()) is returned as details under a generic message
+export const badRequest = (res: Response, error: unknown, code?: string) =>
+    res.status(400).json({
+        success: false,
+        error: typeof error === 'string'
+            ? { message: error, ...(code ? { code } : {}) }
+            : { message: 'Bad request', ...(code ? { code } : {}), details: error }
+    });
 
-export const unauthorized = (res: Response, message = 'Unauthorized') =>
-    res.status(401).json({ success: false, error: { message } });
+export const unauthorized = (res: Response, message = 'Unauthorized', code?: string) =>
+    res.status(401).json({ success: false, error: { message, ...(code ? { code } : {}) } });
+
+export const forbidden = (res: Response, message = 'Forbidden', code?: string) =>
+    res.status(403).json({ success: false, error: { message, ...(code ? { code } : {}) } });
 
 export const notFound = (res: Response, message = 'Not found') =>
     res.status(404).json({ success: false, error: { message } });
 
+export const conflict = (res: Response, message = 'Conflict', code?: string) =>
+    res.status(409).json({ success: false, error: { message, ...(code ? { code } : {}) } });
+
 export const serverError = (res: Response, message = 'Internal server error') =>
     res.status(500).json({ success: false, error: { message } });
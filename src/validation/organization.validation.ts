@@ -0,0 +1,102 @@
+import {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError
+} from './index.validation';
+
+import { body, param } from 'express-validator';
+import { consumeUsageValidation, tooManyRequests } from './usage.validation';
+
+const ORGANIZATION_ROLES = ['owner', 'admin', 'member'];
+
+export const organizationIdValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Organization id must be a valid UUID')
+];
+
+const nameValidation = () => body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters');
+
+// null removes the member's sub-cap
+const memberLimitValidation = () => body('monthlyLimit')
+    .optional({ values: 'undefined' })
+    .custom(value => value === null || (Number.isInteger(value) && value >= 0))
+    .withMessage('Member monthly limit must be a non-negative integer, or null for no cap');
+
+export const createOrganizationValidation = [
+    nameValidation()
+];
+
+export const updateOrganizationValidation = [
+    ...organizationIdValidation,
+    nameValidation()
+];
+
+export const inviteMemberValidation = [
+    ...organizationIdValidation,
+    body('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email'),
+    body('role')
+        .optional()
+        .isIn(ORGANIZATION_ROLES)
+        .withMessage(`Role must be one of: ${ORGANIZATION_ROLES.join(', ')}`),
+    memberLimitValidation()
+];
+
+export const memberIdValidation = [
+    ...organizationIdValidation,
+    param('userId')
+        .isUUID()
+        .withMessage('User id must be a valid UUID')
+];
+
+export const invitationIdValidation = [
+    param('invitationId')
+        .isUUID()
+        .withMessage('Invitation id must be a valid UUID')
+];
+
+export const organizationInvitationIdValidation = [
+    ...organizationIdValidation,
+    ...invitationIdValidation
+];
+
+export const updateMemberValidation = [
+    ...memberIdValidation,
+    body('role')
+        .optional()
+        .isIn(ORGANIZATION_ROLES)
+        .withMessage(`Role must be one of: ${ORGANIZATION_ROLES.join(', ')}`),
+    memberLimitValidation(),
+    body()
+        .custom(value => value.role !== undefined || value.monthlyLimit !== undefined)
+        .withMessage('Provide role and/or monthlyLimit')
+];
+
+export const consumeOrganizationUsageValidation = [
+    ...organizationIdValidation,
+    ...consumeUsageValidation
+];
+
+export {
+    ok,
+    created,
+    badRequest,
+    unauthorized,
+    forbidden,
+    notFound,
+    conflict,
+    serverError,
+    tooManyRequests
+};
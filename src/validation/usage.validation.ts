@@ -1,21 +1,203 @@
 import { Response } from 'express';
+import { body, header, param, query } from 'express-validator';
 import {
     ok,
     created,
     badRequest,
     unauthorized,
+    forbidden,
     notFound,
+    conflict,
     serverError
 } from './index.validation';
 
 export const tooManyRequests = (res: Response, data?: unknown, message?: string) =>
     res.status(429).json({ success: false, ...(message ? { message } : {}), ...(data ? { data } : {}) });
 
+// Either header becomes the ledger's request_id (VARCHAR(100)), so bound it before it reaches the database
+const REQUEST_ID_PATTERN = /^[\x21-\x7e]{1,100}$/;
+
+const requestIdValidation = [
+    header('X-Request-Id')
+        .optional()
+        .matches(REQUEST_ID_PATTERN)
+        .withMessage('X-Request-Id must be 1-100 printable ASCII characters without spaces'),
+    header('Idempotency-Key')
+        .optional()
+        .matches(REQUEST_ID_PATTERN)
+        .withMessage('Idempotency-Key must be 1-100 printable ASCII characters without spaces')
+];
+
+export const incrementUsageValidation = [
+    ...requestIdValidation,
+    body('feature')
+        .optional()
+        .isString()
+        .matches(/^[a-z0-9_.:-]{1,100}$/i)
+        .withMessage('Feature must be 1-100 letters, numbers or _ . : -'),
+    body('metadata')
+        .optional()
+        .isObject()
+        .withMessage('Metadata must be an object')
+];
+
+const MAX_CONSUME_QUANTITY = 1000000;
+
+// Either a single `quantity` (with optional feature/metadata) or `items`; if both are sent they must agree
+export const consumeUsageValidation = [
+    ...requestIdValidation,
+    body('quantity')
+        .optional()
+        .isInt({ min: 1, max: MAX_CONSUME_QUANTITY })
+        .withMessage(`Quantity must be an integer between 1 and ${MAX_CONSUME_QUANTITY}`),
+    body('feature')
+        .optional()
+        .isString()
+        .matches(/^[a-z0-9_.:-]{1,100}$/i)
+        .withMessage('Feature must be 1-100 letters, numbers or _ . : -'),
+    body('metadata')
+        .optional()
+        .isObject()
+        .withMessage('Metadata must be an object'),
+    body('items')
+        .optional()
+        .isArray({ min: 1, max: 100 })
+        .withMessage('Items must be an array of 1-100 line items'),
+    body('items.*.quantity')
+        .isInt({ min: 1, max: MAX_CONSUME_QUANTITY })
+        .withMessage(`Each item quantity must be an integer between 1 and ${MAX_CONSUME_QUANTITY}`),
+    body('items.*.feature')
+        .optional()
+        .isString()
+        .matches(/^[a-z0-9_.:-]{1,100}$/i)
+        .withMessage('Item feature must be 1-100 letters, numbers or _ . : -'),
+    body('items.*.metadata')
+        .optional()
+        .isObject()
+        .withMessage('Item metadata must be an object'),
+    body()
+        .custom(value => {
+            if (!Array.isArray(value?.items)) {
+                if (value?.quantity === undefined) {
+                    throw new Error('Either quantity or items is required');
+                }
+                return true;
+            }
+
+            const total = value.items.reduce((sum: number, item: any) => sum + (parseInt(item?.quantity) || 0), 0);
+            if (value.quantity !== undefined && parseInt(value.quantity) !== total) {
+                throw new Error('Quantity must equal the sum of the item quantities');
+            }
+            if (total > MAX_CONSUME_QUANTITY) {
+                throw new Error(`Total quantity must not exceed ${MAX_CONSUME_QUANTITY}`);
+            }
+            return true;
+        })
+];
+
+export const createReservationValidation = [
+    ...requestIdValidation,
+    body('quantity')
+        .isInt({ min: 1, max: MAX_CONSUME_QUANTITY })
+        .withMessage(`Quantity must be an integer between 1 and ${MAX_CONSUME_QUANTITY}`),
+    body('feature')
+        .optional()
+        .isString()
+        .matches(/^[a-z0-9_.:-]{1,100}$/i)
+        .withMessage('Feature must be 1-100 letters, numbers or _ . : -'),
+    body('metadata')
+        .optional()
+        .isObject()
+        .withMessage('Metadata must be an object'),
+    body('expiresInSeconds')
+        .optional()
+        .isInt({ min: 60, max: 24 * 60 * 60 })
+        .withMessage('Expiry must be between 60 seconds and 24 hours')
+];
+
+export const reservationIdValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Invalid reservation id')
+];
+
+export const commitReservationValidation = [
+    ...reservationIdValidation,
+    body('quantity')
+        .optional()
+        .isInt({ min: 0, max: MAX_CONSUME_QUANTITY })
+        .withMessage(`Quantity must be an integer between 0 and ${MAX_CONSUME_QUANTITY}`)
+];
+
+// null removes the user's own cap, leaving the plan's
+export const overageSpendCapValidation = [
+    body('spendCapCents')
+        .exists()
+        .withMessage('Spend cap is required')
+        .bail()
+        .custom(value => value === null || (Number.isInteger(value) && value >= 0))
+        .withMessage('Spend cap must be a non-negative integer number of cents, or null')
+];
+
+const CREDIT_TRANSACTION_TYPES = ['grant', 'purchase', 'consumption', 'expiry', 'refund'];
+
+export const listCreditTransactionsValidation = [
+    query('type')
+        .optional()
+        .isIn(CREDIT_TRANSACTION_TYPES)
+        .withMessage(`Type must be one of: ${CREDIT_TRANSACTION_TYPES.join(', ')}`),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Limit must be between 1 and 200')
+];
+
+export const listUsageEventsValidation = [
+    query('feature')
+        .optional()
+        .isString()
+        .isLength({ max: 100 })
+        .withMessage('Feature must be less than 100 characters'),
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be an ISO 8601 date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be an ISO 8601 date'),
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Limit must be between 1 and 200')
+];
+
+export const usageHistoryValidation = [
+    query('interval')
+        .optional()
+        .isIn(['day', 'week', 'month'])
+        .withMessage('Interval must be day, week or month'),
+    query('periods')
+        .optional()
+        .isInt({ min: 1, max: 12 })
+        .withMessage('Periods must be between 1 and 12')
+];
+
 export {
     ok,
     created,
     badRequest,
     unauthorized,
+    forbidden,
     notFound,
+    conflict,
     serverError
 };
\ No newline at end of file